@@ -0,0 +1,189 @@
+/**
+ * Activity Range - Where a species' activity is centred and how far it spreads
+ *
+ * For each day, from the logger counts and positions in British National
+ * Grid metres:
+ * - the detection-weighted centroid (centre of activity);
+ * - its standard deviational ellipse, one standard deviation along the
+ *   principal axes of the weighted spread;
+ * - the areas of the 50% (core) and 95% activity ranges, the smallest parts
+ *   of the kernel density surface holding that share of the day's activity.
+ * The density uses one bandwidth for the whole season, so range areas are
+ * comparable from day to day. Pure functions, so they run in the map stats
+ * worker.
+ */
+
+import { densityGrid } from './kdeRaster';
+import {
+	DEFAULT_BANDWIDTH,
+	SQUARE_METRES_PER_HECTARE,
+	selectBandwidth,
+	type MetricPoint
+} from './metricKde';
+import type { Series } from './types';
+
+/** One-standard-deviation ellipse around a centroid, in metres */
+export interface DispersionEllipse {
+	cx: number;
+	cy: number;
+	/** Semi-axes in metres */
+	major: number;
+	minor: number;
+	/** Angle of the major axis in radians, anticlockwise from grid east */
+	angle: number;
+}
+
+/** Daily centre and extent of activity for one species */
+export interface ActivityRange {
+	/** Detection-weighted centroid in metres; null on days with no detections */
+	centroids: ([number, number] | null)[];
+	ellipses: (DispersionEllipse | null)[];
+	/** Areas of the 50% and 95% activity ranges in hectares */
+	area50: (number | null)[];
+	area95: (number | null)[];
+	/** Distance in metres of each day's centroid from the season centroid */
+	displacement: (number | null)[];
+	seasonCentroid: [number, number] | null;
+	/** Kernel bandwidth behind the range areas, in metres */
+	bandwidth: number;
+}
+
+/** Shares of the activity enclosed by the core and full ranges */
+export const ACTIVITY_RANGE_LEVELS = [0.5, 0.95] as const;
+
+/** Weighted centroid and standard deviational ellipse of some points */
+export function dispersionEllipse(points: MetricPoint[]): DispersionEllipse | null {
+	let total = 0;
+	let cx = 0;
+	let cy = 0;
+	for (const p of points) {
+		total += p.weight;
+		cx += p.weight * p.x;
+		cy += p.weight * p.y;
+	}
+	if (total <= 0) return null;
+	cx /= total;
+	cy /= total;
+
+	let sxx = 0;
+	let syy = 0;
+	let sxy = 0;
+	for (const p of points) {
+		const dx = p.x - cx;
+		const dy = p.y - cy;
+		sxx += p.weight * dx * dx;
+		syy += p.weight * dy * dy;
+		sxy += p.weight * dx * dy;
+	}
+	sxx /= total;
+	syy /= total;
+	sxy /= total;
+
+	// Eigenvalues of the 2 × 2 covariance are the variances along the axes
+	const mean = (sxx + syy) / 2;
+	const spread = Math.hypot((sxx - syy) / 2, sxy);
+	return {
+		cx,
+		cy,
+		major: Math.sqrt(mean + spread),
+		minor: Math.sqrt(Math.max(0, mean - spread)),
+		angle: 0.5 * Math.atan2(2 * sxy, sxx - syy)
+	};
+}
+
+/**
+ * Areas in hectares of the smallest parts of a density grid holding each
+ * share of its total: the cells are taken densest first until the share is
+ * reached
+ */
+export function isoplethAreas(
+	values: Float32Array,
+	cellSize: number,
+	levels: readonly number[]
+): number[] {
+	const sorted = Float32Array.from(values).sort().reverse();
+	let total = 0;
+	for (let i = 0; i < sorted.length; i++) total += sorted[i];
+	const cellArea = (cellSize * cellSize) / SQUARE_METRES_PER_HECTARE;
+	if (total <= 0) return levels.map(() => 0);
+
+	return levels.map((level) => {
+		let sum = 0;
+		let cells = 0;
+		while (cells < sorted.length && sum < level * total) sum += sorted[cells++];
+		return cells * cellArea;
+	});
+}
+
+/**
+ * Compute the daily activity range for one species from its loggers' counts
+ * and positions
+ */
+export function computeActivityRange(
+	counts: Series[],
+	positions: [number, number][],
+	numDays: number
+): ActivityRange {
+	const xs = positions.map(([x]) => x);
+	const ys = positions.map(([, y]) => y);
+	const minX = Math.min(...xs);
+	const minY = Math.min(...ys);
+	const width = Math.max(...xs) - minX;
+	const height = Math.max(...ys) - minY;
+
+	const dayPoints = (day: number): MetricPoint[] =>
+		positions.map(([x, y], s) => ({ x, y, weight: counts[s][day] || 0 }));
+
+	const seasonPoints = positions.map(([x, y], s) => {
+		let weight = 0;
+		for (let day = 0; day < numDays; day++) weight += counts[s][day] || 0;
+		return { x, y, weight };
+	});
+	const season = dispersionEllipse(seasonPoints);
+	const seasonCentroid: [number, number] | null = season ? [season.cx, season.cy] : null;
+	const bandwidth = selectBandwidth(seasonPoints, DEFAULT_BANDWIDTH);
+
+	const range: ActivityRange = {
+		centroids: [],
+		ellipses: [],
+		area50: [],
+		area95: [],
+		displacement: [],
+		seasonCentroid,
+		bandwidth
+	};
+
+	for (let day = 0; day < numDays; day++) {
+		const points = dayPoints(day).filter((p) => p.weight > 0);
+		const ellipse = dispersionEllipse(points);
+		range.ellipses.push(ellipse);
+		if (!ellipse) {
+			range.centroids.push(null);
+			range.area50.push(null);
+			range.area95.push(null);
+			range.displacement.push(null);
+			continue;
+		}
+
+		range.centroids.push([ellipse.cx, ellipse.cy]);
+		range.displacement.push(
+			seasonCentroid
+				? Math.hypot(ellipse.cx - seasonCentroid[0], ellipse.cy - seasonCentroid[1])
+				: null
+		);
+
+		// Logger-relative metres, so the grid starts at the westernmost and
+		// southernmost loggers; its own padding takes in the kernels' tails
+		const grid = densityGrid(
+			points.map((p) => ({ x: p.x - minX, y: p.y - minY, weight: p.weight })),
+			width,
+			height,
+			bandwidth
+		);
+		const [core, full] = isoplethAreas(grid.values, grid.cellSize, ACTIVITY_RANGE_LEVELS);
+		range.area50.push(core);
+		range.area95.push(full);
+	}
+
+	return range;
+}
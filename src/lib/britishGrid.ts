@@ -0,0 +1,32 @@
+/**
+ * British Grid - Projection between WGS84 and British National Grid
+ *
+ * The perimeter shapefile and metric analyses (density per hectare, kernel
+ * bandwidths in metres) use British National Grid (EPSG:27700).
+ */
+
+import proj4 from 'proj4';
+
+// British National Grid (EPSG:27700), assumed when a shapefile has no .prj
+export const BNG_PROJECTION =
+	'+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +datum=OSGB36 +units=m +no_defs';
+
+export const WGS84_PROJECTION = '+proj=longlat +ellps=WGS84 +datum=WGS84 +no_defs';
+
+const toGrid = proj4(WGS84_PROJECTION, BNG_PROJECTION);
+
+/**
+ * Easting and northing in metres of a WGS84 longitude/latitude
+ */
+export function toBritishGrid(lon: number, lat: number): [number, number] {
+	const [x, y] = toGrid.forward([lon, lat]);
+	return [x, y];
+}
+
+/**
+ * WGS84 longitude/latitude of a point in another projection (WKT or proj4 string)
+ */
+export function toWgs84(projection: string, x: number, y: number): { lon: number; lat: number } {
+	const [lon, lat] = proj4(projection, WGS84_PROJECTION, [x, y]);
+	return { lon, lat };
+}
@@ -2,12 +2,85 @@
  * Centralized Data Store - Preloads all data at app startup
  * 
  * This ensures instant switching between species and views with no loading delays.
+ * Data is organised by season (see seasonService); the active season is mirrored
+ * into AppData, other seasons are loaded on demand for comparison.
+ *
+ * Components read the data through Svelte stores: one per AppData field
+ * (speciesStore, weatherStore, ...) so each only updates when its own layer is
+ * loaded, retried or replaced by an import.
  */
 
+import { writable, type Readable } from 'svelte/store';
 import type { SpeciesData, Species } from './types';
-import type { NdviData, ProcessedNdviData } from './ndviService';
-import { processNdviData } from './ndviService';
-import type { WeatherData } from './weatherService';
+import {
+	compareNdviSmoothers,
+	createNdviProcessor,
+	resolveNdviProcessing,
+	type NdviData,
+	type NdviProcessingConfig,
+	type NdviSmootherComparison,
+	type ProcessedNdviData
+} from './ndviService';
+import { createWeatherProvider, type WeatherData, type WeatherProvider } from './weatherService';
+import {
+	validateSpeciesData,
+	validateNdviData,
+	validateBirdData,
+	throwIfInvalid,
+	DataValidationError,
+	type ValidationIssue,
+	type ValidationResult
+} from './dataValidation';
+import {
+	fetchManifest,
+	getSeason,
+	DEFAULT_MANIFEST,
+	type DatasetManifest,
+	type SeasonConfig
+} from './seasonService';
+import { decodeSpeciesBinary, hasPackedMagic } from './speciesBinary';
+import {
+	fetchBuffer,
+	fetchJson,
+	clearResourceCache,
+	ResourceError,
+	type ByteProgress,
+	type ResourceKind
+} from './resourceLoader';
+import { ndviFromCsv, type LocalFile, type LocalFileRole } from './localImport';
+import {
+	getCachedFile,
+	putCachedFile,
+	getCachedDerived,
+	getLatestDerived,
+	putCachedDerived
+} from './persistentCache';
+import type { SpeciesMapStats } from './mapStats';
+import { startMapStatsJob, type MapStatsJob } from './mapStatsService';
+import { toBritishGrid } from './britishGrid';
+import type { LoggerPhenology } from './phenology';
+import {
+	DEFAULT_BINNING,
+	binSpeciesData,
+	binningKey,
+	isDaily,
+	trendWindow,
+	type TemporalBinning
+} from './temporalBinning';
+import { computePhenologyInBackground } from './phenologyService';
+import {
+	createVectorLayer,
+	layerPolygons,
+	parseGeoJson,
+	parseShapefile,
+	siblingFile,
+	type LonLat,
+	type VectorFeature,
+	type VectorLayer,
+	type VectorLayerConfig
+} from './vectorLayers';
+
+export type { SpeciesMapStats } from './mapStats';
 
 // ============================================================================
 // Types
@@ -19,27 +92,60 @@ export interface LoggerPosition {
 	longitude: number;
 }
 
-/** Pre-computed stats for the density map visualization */
-export interface SpeciesMapStats {
-	globalMax: number;           // Maximum detection count across all sites and days
-	dailyTotals: number[];       // Sum of detections across all sites for each day
-	maxDailyTotal: number;       // Maximum of dailyTotals
-	// Enhanced stats for side panel
-	dailyTrends: number[];       // -1 to 1 normalized percentage change (7-day rolling window)
-	dailyClustering: number[];   // 0-1 Gini coefficient measuring concentration of detections across sites
-	cumulativeTotal: number[];   // Running cumulative detections
-	activeSiteCounts: number[];  // Number of sites with detections per day
-	totalActiveSites: number;    // Total unique sites with any detections
-}
-
 export interface LoadingProgress {
 	stage: 'idle' | 'species' | 'loggers' | 'birds' | 'ndvi' | 'weather' | 'images' | 'processing' | 'complete' | 'error';
 	message: string;
 	progress: number; // 0-100
 	error?: string;
+	/** Validation errors and warnings collected from the data files so far */
+	issues: ValidationIssue[];
+}
+
+/**
+ * Stages the app can run without. The manifest and detections are required:
+ * if they fail the whole load fails. If one of these fails the load carries on
+ * and the failure is recorded so the UI can say which layer is missing.
+ */
+export type OptionalStage = 'ndvi' | 'weather' | 'birds' | 'perimeter' | 'layers';
+
+/** What the user loses when an optional stage fails */
+export const OPTIONAL_STAGE_LAYERS: Record<OptionalStage, string> = {
+	ndvi: 'Vegetation index and logger map',
+	weather: 'Weather',
+	birds: 'Common names and illustrations',
+	perimeter: 'Study area outline',
+	layers: 'Map overlays'
+};
+
+export interface StageFailure {
+	stage: OptionalStage;
+	layer: string;
+	message: string;
+}
+
+/** Everything that belongs to one monitoring season */
+export interface SeasonData {
+	season: SeasonConfig;
+	speciesData: SpeciesData;
+	/** Empty if the NDVI file failed to load */
+	loggerPositions: Map<string, LoggerPosition>;
+	/** Raw NDVI file, kept so it can be reprocessed with other settings */
+	ndviFile: NdviData | null;
+	ndviData: ProcessedNdviData | null;
+	weatherData: WeatherData | null;
+	/** Filled in the background; use getSpeciesMapStats to wait for one species */
+	speciesMapStats: Map<string, SpeciesMapStats>;
+	/** Save time (epoch ms) of the oldest cached file used because a download failed */
+	cachedAt: number | null;
+	/** Optional per-season stages (NDVI, weather) that failed */
+	failures: StageFailure[];
 }
 
 export interface AppData {
+	/** Dataset manifest listing the available seasons */
+	manifest: DatasetManifest | null;
+	/** The season currently shown */
+	season: SeasonConfig | null;
 	speciesData: SpeciesData | null;
 	loggerPositions: Map<string, LoggerPosition>;
 	birdData: Record<string, { common_name: string; species_code: string }> | null;
@@ -48,8 +154,14 @@ export interface AppData {
 	imagesLoaded: boolean;
 	/** Pre-computed map stats per species name */
 	speciesMapStats: Map<string, SpeciesMapStats>;
-	/** Study area perimeter coordinates (WGS84 lat/lon) */
-	perimeterCoordinates: Array<{lat: number, lon: number}[]> | null;
+	/** Study area polygons (WGS84 lat/lon), each an outer ring followed by its holes */
+	perimeterCoordinates: LonLat[][][] | null;
+	/** Map overlays in drawing order, the study area first */
+	vectorLayers: VectorLayer[];
+	/** Set when offline: save time (epoch ms) of the oldest cached data in use */
+	cachedAt: number | null;
+	/** Optional stages that failed for the active season and shared layers */
+	failures: StageFailure[];
 }
 
 // ============================================================================
@@ -59,73 +171,315 @@ export interface AppData {
 let loadingState: LoadingProgress = {
 	stage: 'idle',
 	message: 'Initializing...',
-	progress: 0
+	progress: 0,
+	issues: []
 };
 
-let appData: AppData = {
-	speciesData: null,
-	loggerPositions: new Map(),
-	birdData: null,
-	ndviData: null,
-	weatherData: null,
-	imagesLoaded: false,
-	speciesMapStats: new Map(),
-	perimeterCoordinates: null
-};
+function emptyAppData(): AppData {
+	return {
+		manifest: null,
+		season: null,
+		speciesData: null,
+		loggerPositions: new Map(),
+		birdData: null,
+		ndviData: null,
+		weatherData: null,
+		imagesLoaded: false,
+		speciesMapStats: new Map(),
+		perimeterCoordinates: null,
+		vectorLayers: [],
+		cachedAt: null,
+		failures: []
+	};
+}
+
+let appData: AppData = emptyAppData();
 
 let loadPromise: Promise<AppData> | null = null;
-let subscribers: Set<(state: LoadingProgress) => void> = new Set();
-let dataSubscribers: Set<(data: AppData) => void> = new Set();
+// Kept so reload() can repeat the load
+let lastImageMap: Record<string, string> = {};
+// Failures of optional stages shared by all seasons (bird data, perimeter, overlays)
+let sharedFailures: StageFailure[] = [];
+// The study area and the manifest's other overlay layers
+let perimeterLayer: VectorLayer | null = null;
+let overlayLayers: VectorLayer[] = [];
+// Map stats still being computed, by season id
+const mapStatsJobs = new Map<string, MapStatsJob>();
+// Season loads by id, shared between the main load, season switches and comparisons
+const seasonPromises = new Map<string, Promise<SeasonData>>();
+const loadedSeasons = new Map<string, SeasonData>();
+// Processed NDVI per file and settings, dropped on reload
+const ndviProcessor = createNdviProcessor();
+// NDVI settings changed in the app, applied over each season's own
+let ndviOverrides: Partial<NdviProcessingConfig> = {};
+// Logger phenology per processed NDVI, computed when first asked for
+let phenologyResults = new WeakMap<ProcessedNdviData, Promise<Map<string, LoggerPhenology>>>();
+// Time step shared by the chart and the map
+let temporalBinning: TemporalBinning = DEFAULT_BINNING;
+// The active season at a coarser time step, with its map stats; null when daily
+let binnedSeason: {
+	source: SpeciesData;
+	loggerPositions: Map<string, LoggerPosition>;
+	key: string;
+	speciesData: SpeciesData;
+	job: MapStatsJob;
+} | null = null;
 
 // ============================================================================
-// Subscriber Management
+// Stores
 // ============================================================================
 
-export function subscribeToLoading(callback: (state: LoadingProgress) => void): () => void {
-	subscribers.add(callback);
-	callback(loadingState); // Immediate callback with current state
-	return () => subscribers.delete(callback);
+const loadingWritable = writable<LoadingProgress>(loadingState);
+const appDataWritable = writable<AppData>(appData);
+const sliceUpdates: Array<() => void> = [];
+
+/**
+ * A store for one AppData field. It only notifies when the field is replaced,
+ * so a component using the weather does not rerun when the NDVI changes.
+ */
+function slice<T>(select: (data: AppData) => T): Readable<T> {
+	let current = select(appData);
+	const store = writable(current);
+	sliceUpdates.push(() => {
+		const next = select(appData);
+		if (next !== current) {
+			current = next;
+			store.set(next);
+		}
+	});
+	return { subscribe: store.subscribe };
 }
 
-export function subscribeToData(callback: (data: AppData) => void): () => void {
-	dataSubscribers.add(callback);
-	if (loadingState.stage === 'complete') {
-		callback(appData);
-	}
-	return () => dataSubscribers.delete(callback);
+/** Progress of the initial load (or of reload()) */
+export const loadingStore: Readable<LoadingProgress> = { subscribe: loadingWritable.subscribe };
+
+/** All of AppData, updated on any change. Prefer one of the slices below. */
+export const appDataStore: Readable<AppData> = { subscribe: appDataWritable.subscribe };
+
+export const manifestStore = slice((d) => d.manifest);
+export const seasonStore = slice((d) => d.season);
+export const speciesStore = slice((d) => d.speciesData);
+export const loggersStore = slice((d) => d.loggerPositions);
+export const birdDataStore = slice((d) => d.birdData);
+export const ndviStore = slice((d) => d.ndviData);
+export const weatherStore = slice((d) => d.weatherData);
+export const perimeterStore = slice((d) => d.perimeterCoordinates);
+export const vectorLayersStore = slice((d) => d.vectorLayers);
+export const cachedAtStore = slice((d) => d.cachedAt);
+export const failuresStore = slice((d) => d.failures);
+
+const mapStatsWritable = writable<ReadonlyMap<string, SpeciesMapStats>>(appData.speciesMapStats);
+/**
+ * Map stats of the active season. Stats are computed in the background, so
+ * this also updates as each species is filled in.
+ */
+export const mapStatsStore: Readable<ReadonlyMap<string, SpeciesMapStats>> = {
+	subscribe: mapStatsWritable.subscribe
+};
+let publishedMapStats = appData.speciesMapStats;
+
+const binningWritable = writable<TemporalBinning>(temporalBinning);
+/** Time step shared by the chart and the map; see setTemporalBinning */
+export const temporalBinningStore: Readable<TemporalBinning> = { subscribe: binningWritable.subscribe };
+
+const binnedSpeciesWritable = writable<SpeciesData | null>(appData.speciesData);
+/**
+ * Species of the active season at the temporal binning. The same data as
+ * speciesStore while the binning is daily.
+ */
+export const binnedSpeciesStore: Readable<SpeciesData | null> = {
+	subscribe: binnedSpeciesWritable.subscribe
+};
+let publishedBinnedSpecies = appData.speciesData;
+
+function publishLoading() {
+	loadingWritable.set(loadingState);
+}
+
+function recordFailure(stage: OptionalStage, err: unknown): StageFailure {
+	console.warn(`Optional stage "${stage}" failed:`, err);
+	return {
+		stage,
+		layer: OPTIONAL_STAGE_LAYERS[stage],
+		message: err instanceof Error ? err.message : String(err)
+	};
 }
 
-function notifyLoadingSubscribers() {
-	subscribers.forEach(cb => cb(loadingState));
+function publishData() {
+	appDataWritable.set(appData);
+	sliceUpdates.forEach((update) => update());
+	publishBinned();
 }
 
-function notifyDataSubscribers() {
-	dataSubscribers.forEach(cb => cb(appData));
+/**
+ * Publish the active season's species and map stats at the temporal binning.
+ * Binned map stats are computed in the background like the daily ones, but
+ * are not cached; they are recomputed when the season or binning changes.
+ */
+function publishBinned() {
+	const data = appData.speciesData;
+	let speciesData = data;
+	let stats = appData.speciesMapStats;
+	if (data && !isDaily(temporalBinning)) {
+		const key = binningKey(temporalBinning);
+		let binned = binnedSeason;
+		if (
+			!binned ||
+			binned.source !== data ||
+			binned.key !== key ||
+			binned.loggerPositions !== appData.loggerPositions
+		) {
+			binned?.job.cancel();
+			const binnedData = binSpeciesData(data, temporalBinning);
+			const job = startMapStatsJob(
+				binnedData.species,
+				gridPositions(appData.loggerPositions),
+				() => {
+					if (job.stats === publishedMapStats) mapStatsWritable.set(job.stats);
+				},
+				trendWindow(temporalBinning)
+			);
+			binned = {
+				source: data,
+				loggerPositions: appData.loggerPositions,
+				key,
+				speciesData: binnedData,
+				job
+			};
+			binnedSeason = binned;
+		}
+		speciesData = binned.speciesData;
+		stats = binned.job.stats;
+	} else if (binnedSeason) {
+		binnedSeason.job.cancel();
+		binnedSeason = null;
+	}
+
+	if (speciesData !== publishedBinnedSpecies) {
+		publishedBinnedSpecies = speciesData;
+		binnedSpeciesWritable.set(speciesData);
+	}
+	if (stats !== publishedMapStats) {
+		publishedMapStats = stats;
+		mapStatsWritable.set(publishedMapStats);
+	}
 }
 
 function updateProgress(stage: LoadingProgress['stage'], message: string, progress: number, error?: string) {
-	loadingState = { stage, message, progress, error };
-	notifyLoadingSubscribers();
+	loadingState = { stage, message, progress, error, issues: loadingState.issues };
+	publishLoading();
+}
+
+/**
+ * Record a validation result: warnings are kept for the loading screen,
+ * errors abort the load with a DataValidationError
+ */
+function reportValidation(result: ValidationResult) {
+	if (result.errors.length > 0 || result.warnings.length > 0) {
+		loadingState = {
+			...loadingState,
+			issues: [...loadingState.issues, ...result.errors, ...result.warnings]
+		};
+		publishLoading();
+	}
+	throwIfInvalid(result);
 }
 
 // ============================================================================
 // Data Loading Functions
 // ============================================================================
 
-async function loadSpeciesData(): Promise<SpeciesData> {
-	const response = await fetch('/detections/species_data.json');
-	if (!response.ok) throw new Error('Failed to load species data');
-	return response.json();
+/** Tracks whether any cached copies stood in for failed downloads */
+interface CacheLog {
+	cachedAt: number | null;
 }
 
-async function loadLoggerPositions(): Promise<Map<string, LoggerPosition>> {
-	const response = await fetch('/detections/logger_ndvi_timeseries_2025.json');
-	if (!response.ok) throw new Error('Failed to load logger positions');
-	
-	const data = await response.json();
+function noteCached(log: CacheLog, savedAt: number) {
+	log.cachedAt = log.cachedAt === null ? savedAt : Math.min(log.cachedAt, savedAt);
+}
+
+/**
+ * Load a file, falling back to the copy in the persistent cache when the
+ * network is unavailable. Returns whether the value is fresh so the caller
+ * can store it once it knows the file's version.
+ */
+async function fetchOrCached<T>(
+	url: string,
+	load: () => Promise<T>,
+	log: CacheLog
+): Promise<{ value: T; fresh: boolean }> {
+	try {
+		return { value: await load(), fresh: true };
+	} catch (err) {
+		if (err instanceof ResourceError && err.reason === 'aborted') throw err;
+		const cached = await getCachedFile<T>(url);
+		if (!cached) throw err;
+		console.warn(`Using cached copy of ${url}:`, err);
+		noteCached(log, cached.savedAt);
+		return { value: cached.value, fresh: false };
+	}
+}
+
+function formatMegabytes(bytes: number): string {
+	return (bytes / 1048576).toFixed(1);
+}
+
+/**
+ * Map download progress of one file onto a slice [from, to] of the loading bar
+ */
+function byteProgress(
+	report: ProgressReporter | undefined,
+	stage: LoadingProgress['stage'],
+	message: string,
+	from: number,
+	to: number
+): ByteProgress | undefined {
+	if (!report) return undefined;
+	return (loaded, total) => {
+		const fraction = total ? Math.min(1, loaded / total) : 0;
+		const size = total
+			? `${formatMegabytes(Math.min(loaded, total))} / ${formatMegabytes(total)} MB`
+			: `${formatMegabytes(loaded)} MB`;
+		report(stage, `${message} ${size}`, Math.round(from + (to - from) * fraction));
+	};
+}
+
+/** Label used in validation reports, e.g. "2025 / species_data.json" */
+function sourceLabel(season: SeasonConfig, url: string): string {
+	return `${season.label} / ${url.split('/').pop()}`;
+}
+
+/** Receives validation results; the main load reports them on the loading screen */
+type ValidationSink = (result: ValidationResult) => void;
+
+/**
+ * Parse detections from either species_data.json or the packed binary
+ * format (detected by its magic bytes, so the file name is free)
+ */
+function parseSpeciesData(
+	buffer: ArrayBuffer,
+	source: string,
+	check: ValidationSink = reportValidation
+): SpeciesData {
+	const data: unknown = hasPackedMagic(buffer)
+		? decodeSpeciesBinary(buffer, source)
+		: JSON.parse(new TextDecoder().decode(buffer));
+	check(validateSpeciesData(data, source));
+	return data as SpeciesData;
+}
+
+/**
+ * Validate a logger NDVI file, which also carries the logger positions
+ */
+function checkNdviFile(data: unknown, source: string, check: ValidationSink = reportValidation): NdviData {
+	check(validateNdviData(data, source));
+	return data as NdviData;
+}
+
+function positionsFromNdvi(data: NdviData): Map<string, LoggerPosition> {
 	const positions = new Map<string, LoggerPosition>();
 	
-	for (const [name, logger] of Object.entries(data.loggers as Record<string, any>)) {
+	for (const [name, logger] of Object.entries(data.loggers)) {
 		positions.set(name, {
 			name,
 			latitude: logger.latitude,
@@ -136,125 +490,125 @@ async function loadLoggerPositions(): Promise<Map<string, LoggerPosition>> {
 	return positions;
 }
 
-async function loadPerimeterCoordinates(): Promise<Array<{lat: number, lon: number}[]> | null> {
-	try {
-		const shpResponse = await fetch('/detections/perimeter/perimeter.shp');
-		const dbfResponse = await fetch('/detections/perimeter/perimeter.dbf');
-		
-		if (!shpResponse.ok || !dbfResponse.ok) {
-			console.warn('Could not load perimeter files');
-			return null;
-		}
-		
-		const shpBuffer = await shpResponse.arrayBuffer();
-		const dbfBuffer = await dbfResponse.arrayBuffer();
-		
-		// Use shapefile library to parse
-		const shapefile = await import('shapefile');
-		const featureCollection = await shapefile.read(shpBuffer, dbfBuffer) as any;
-		const features = Array.isArray(featureCollection) ? featureCollection : featureCollection.features;
-		
-		// Extract coordinates from each feature
-		const rings: Array<{lat: number, lon: number}[]> = [];
-		
-		// Import proj4 for coordinate transformation
-		const proj4 = await import('proj4');
-		
-		// Define projections: British National Grid (EPSG:27700) to WGS84 (EPSG:4326)
-		const bng = '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +datum=OSGB36 +units=m +no_defs';
-		const wgs84 = '+proj=longlat +ellps=WGS84 +datum=WGS84 +no_defs';
-		
-		for (const feature of features) {
-			if (feature.geometry?.coordinates) {
-				const coords = feature.geometry.coordinates;
-				
-				// Handle different geometry types
-				if (feature.geometry.type === 'Polygon') {
-					// Each ring in the polygon
-					const polygonCoords = coords as number[][][];
-					for (const ring of polygonCoords) {
-						const transformedRing = ring.map((coord: number[]) => {
-							// Transform from BNG to WGS84
-							const [lon, lat] = proj4.default(bng, wgs84, [coord[0], coord[1]]);
-							return { lon, lat };
-						});
-						rings.push(transformedRing);
-					}
-				} else if (feature.geometry.type === 'MultiPolygon') {
-					// Each polygon, each ring
-					const multipolygonCoords = coords as number[][][][];
-					for (const polygon of multipolygonCoords) {
-						for (const ring of polygon) {
-							const transformedRing = ring.map((coord: number[]) => {
-								// Transform from BNG to WGS84
-								const [lon, lat] = proj4.default(bng, wgs84, [coord[0], coord[1]]);
-								return { lon, lat };
-							});
-							rings.push(transformedRing);
-						}
-					}
-				}
-			}
-		}
-		
-		return rings;
-	} catch (error) {
-		console.warn('Error loading perimeter:', error);
-		return null;
-	}
+async function loadSpeciesData(season: SeasonConfig, log: CacheLog, onBytes?: ByteProgress): Promise<SpeciesData> {
+	const url = season.speciesData;
+	const { value: buffer, fresh } = await fetchOrCached(
+		url,
+		// Parsed data keeps (or copies) what it needs, so the raw bytes are not kept in memory
+		() => fetchBuffer(url, { resource: 'species', label: `species data for ${season.label}`, onBytes, cache: false }),
+		log
+	);
+	const speciesData = parseSpeciesData(buffer, sourceLabel(season, season.speciesData));
+	if (fresh) void putCachedFile(season.speciesData, speciesData.metadata.generatedAt, buffer);
+	return speciesData;
 }
 
-async function loadBirdData(): Promise<Record<string, { common_name: string; species_code: string }>> {
-	const response = await fetch('/bird_data.json');
-	if (!response.ok) throw new Error('Failed to load bird data');
-	return response.json();
+async function loadNdviFile(season: SeasonConfig, log: CacheLog, onBytes?: ByteProgress): Promise<NdviData> {
+	const url = season.ndviData;
+	const { value, fresh } = await fetchOrCached(
+		url,
+		() => fetchJson<unknown>(url, { resource: 'ndvi', label: `logger positions for ${season.label}`, onBytes }),
+		log
+	);
+	const data = checkNdviFile(value, sourceLabel(season, url));
+	if (fresh) void putCachedFile(url, data.metadata.generated, data);
+	return data;
 }
 
-async function loadNdviData(): Promise<ProcessedNdviData> {
-	const response = await fetch('/detections/logger_ndvi_timeseries_2025.json');
-	if (!response.ok) throw new Error('Failed to load NDVI data');
-	const data: NdviData = await response.json();
-	return processNdviData(data);
+/**
+ * Fetch and parse a layer's shapefile or GeoJSON. A shapefile's .dbf and .prj
+ * are optional: without the .dbf features have no attributes, and without the
+ * .prj British National Grid is assumed.
+ */
+async function fetchVectorFeatures(
+	config: VectorLayerConfig,
+	resource: ResourceKind
+): Promise<VectorFeature[]> {
+	const label = config.label ?? config.id;
+	const optional = (url: string, what: string) =>
+		fetchBuffer(url, { resource, label: `${label} ${what}` }).catch(() => undefined);
+	const text = (buffer?: ArrayBuffer) => (buffer ? new TextDecoder().decode(buffer) : undefined);
+
+	if (config.geojson) {
+		const [data, prj] = await Promise.all([
+			fetchJson<unknown>(config.geojson, { resource, label }),
+			config.prj ? optional(config.prj, 'projection') : undefined
+		]);
+		return parseGeoJson(data, text(prj));
+	}
+	if (!config.shp) throw new Error(`Layer "${label}" lists no shapefile or GeoJSON`);
+	const [shp, dbf, prj] = await Promise.all([
+		fetchBuffer(config.shp, { resource, label: `${label} shapes` }),
+		optional(config.dbf ?? siblingFile(config.shp, 'dbf'), 'attributes'),
+		optional(config.prj ?? siblingFile(config.shp, 'prj'), 'projection')
+	]);
+	return parseShapefile(shp, dbf, text(prj));
 }
 
-async function loadWeatherData(startDate: string, endDate: string): Promise<WeatherData | null> {
+/**
+ * Load one overlay layer. The reprojected features are cached so the layer is
+ * still drawn when offline.
+ */
+async function loadVectorLayer(config: VectorLayerConfig, log: CacheLog): Promise<VectorLayer> {
+	const key = `layer:${config.id}`;
+	const version = config.geojson ?? config.shp ?? '';
+	let features: VectorFeature[];
 	try {
-		const params = new URLSearchParams({
-			latitude: '51.771342',
-			longitude: '-1.337984',
-			timezone: 'Europe/London',
-			start_date: startDate,
-			end_date: endDate,
-			daily: 'temperature_2m_max,temperature_2m_min,temperature_2m_mean,precipitation_sum'
-		});
+		const resource = config.kind === 'perimeter' ? 'perimeter' : 'layers';
+		features = await fetchVectorFeatures(config, resource);
+		void putCachedDerived(key, version, features);
+	} catch (err) {
+		const cached = await getLatestDerived<VectorFeature[]>(key);
+		if (!cached || cached.version !== version) throw err;
+		noteCached(log, cached.savedAt);
+		features = cached.value;
+	}
+	return createVectorLayer(config, features);
+}
 
-		const response = await fetch(`https://archive-api.open-meteo.com/v1/archive?${params}`, {
-			signal: AbortSignal.timeout(10000)
-		});
+/** Publish the study area and overlays to AppData */
+function applyVectorLayers() {
+	appData.vectorLayers = perimeterLayer ? [perimeterLayer, ...overlayLayers] : overlayLayers;
+	appData.perimeterCoordinates = perimeterLayer ? layerPolygons(perimeterLayer.features) : null;
+}
 
-		if (!response.ok) return null;
+async function loadBirdData(log: CacheLog): Promise<Record<string, { common_name: string; species_code: string }>> {
+	const url = '/bird_data.json';
+	const { value: data, fresh } = await fetchOrCached(
+		url,
+		() => fetchJson<unknown>(url, { resource: 'birds', label: 'bird data' }),
+		log
+	);
+	reportValidation(validateBirdData(data));
+	// The file has no version stamp; the number of species is a good enough proxy
+	if (fresh) void putCachedFile(url, String(Object.keys(data as object).length), data);
+	return data as Record<string, { common_name: string; species_code: string }>;
+}
 
-		const data = await response.json();
-		if (!data.daily) return null;
+// Bump when DailyWeather gains fields so older cached entries are refetched
+const WEATHER_CACHE_FORMAT = 2;
 
-		const daily = data.daily.time.map((dateStr: string, i: number) => ({
-			date: new Date(dateStr),
-			temperatureMax: data.daily.temperature_2m_max[i],
-			temperatureMin: data.daily.temperature_2m_min[i],
-			temperatureMean: data.daily.temperature_2m_mean[i],
-			precipitationSum: data.daily.precipitation_sum[i] || 0
-		}));
+/**
+ * Weather for the season's date range. A complete response for a past range
+ * never changes, so it is cached per provider and range and only fetched once.
+ */
+async function loadWeatherData(
+	season: SeasonConfig,
+	provider: WeatherProvider,
+	startDate: string,
+	endDate: string
+): Promise<WeatherData> {
+	const key = `weather:${season.id}`;
+	const version = `${WEATHER_CACHE_FORMAT}|${provider.id}|${startDate}/${endDate}`;
+	const cached = await getCachedDerived<WeatherData>(key, version);
+	if (cached) return cached;
 
-		return {
-			latitude: data.latitude,
-			longitude: data.longitude,
-			timezone: data.timezone,
-			daily
-		};
-	} catch {
-		// Weather data is optional, don't fail the whole load
-		return null;
+	const weather = await provider.fetchDaily(startDate, endDate);
+	// The archive lags a few days behind; only keep responses with no gaps
+	if (weather.daily.every((d) => d.temperatureMean !== null)) {
+		void putCachedDerived(key, version, weather);
 	}
+	return weather;
 }
 
 async function preloadImages(imageMap: Record<string, string>): Promise<void> {
@@ -272,152 +626,509 @@ async function preloadImages(imageMap: Record<string, string>): Promise<void> {
 	);
 }
 
+// ============================================================================
+// Season Loading
+// ============================================================================
+
+type ProgressReporter = (stage: LoadingProgress['stage'], message: string, progress: number) => void;
+
 /**
- * Pre-compute map visualization stats for all species
- * This avoids expensive calculations when switching species
+ * Load and pre-process all files for one season.
+ * Progress is only reported for the initial load; comparison loads run quietly.
  */
-function precomputeMapStats(speciesData: SpeciesData): Map<string, SpeciesMapStats> {
-	const statsMap = new Map<string, SpeciesMapStats>();
-	
-	for (const sp of speciesData.species) {
-		const sites = sp.timeSeries.sites;
-		const numDays = sp.timeSeries.dates.length;
-		const siteNames = Object.keys(sites);
-		const numSites = siteNames.length;
-		
-		let globalMax = 0;
-		const dailyTotals: number[] = new Array(numDays).fill(0);
-		const activeSiteCounts: number[] = new Array(numDays).fill(0);
-		const dailySiteValues: number[][] = []; // For Gini coefficient calculation
-		
-		// Track which sites ever had detections
-		const sitesWithDetections = new Set<string>();
-		
-		// Initialize daily site values array
-		for (let i = 0; i < numDays; i++) {
-			dailySiteValues[i] = [];
-		}
-		
-		// Single pass through all data
-		for (const site of siteNames) {
-			const counts = sites[site];
-			for (let i = 0; i < counts.length; i++) {
-				const count = counts[i] || 0;
-				if (count > globalMax) globalMax = count;
-				dailyTotals[i] += count;
-				dailySiteValues[i].push(count);
-				if (count > 0) {
-					activeSiteCounts[i]++;
-					sitesWithDetections.add(site);
-				}
-			}
+async function buildSeasonData(season: SeasonConfig, report?: ProgressReporter): Promise<SeasonData> {
+	const log: CacheLog = { cachedAt: null };
+
+	// Downloads advance the bar by bytes received rather than in fixed steps
+	const speciesData = await loadSpeciesData(
+		season,
+		log,
+		byteProgress(report, 'species', `Loading ${season.label} detection data...`, 6, 30)
+	);
+
+	// Optional: without it the chart still works, but there is no map or NDVI overlay
+	const failures: StageFailure[] = [];
+	let ndviFile: NdviData | null = null;
+	try {
+		ndviFile = await loadNdviFile(
+			season,
+			log,
+			byteProgress(report, 'loggers', 'Loading sensor network...', 30, 45)
+		);
+	} catch (err) {
+		failures.push(recordFailure('ndvi', err));
+	}
+
+	return assembleSeasonData(season, speciesData, ndviFile, log, report, failures);
+}
+
+/**
+ * Derive everything else a season needs from its two parsed files.
+ * Shared by downloaded seasons and files imported from disk; local imports
+ * are never written to the persistent cache.
+ */
+async function assembleSeasonData(
+	season: SeasonConfig,
+	speciesData: SpeciesData,
+	ndviFile: NdviData | null,
+	log: CacheLog,
+	report?: ProgressReporter,
+	failures: StageFailure[] = []
+): Promise<SeasonData> {
+	report?.('ndvi', 'Processing vegetation data...', 50);
+	const { loggerPositions, ndviData } = ndviLayers(season, ndviFile);
+
+	report?.('processing', 'Pre-computing visualizations...', 65);
+	const speciesMapStats = await seasonMapStats(season, speciesData, ndviFile, loggerPositions);
+
+	report?.('weather', 'Fetching weather history...', 78);
+	let weatherData: WeatherData | null = null;
+	try {
+		weatherData = await seasonWeather(season, speciesData);
+	} catch (err) {
+		failures.push(recordFailure('weather', err));
+	}
+
+	return {
+		season,
+		speciesData,
+		loggerPositions,
+		ndviFile,
+		ndviData,
+		weatherData,
+		speciesMapStats,
+		cachedAt: log.cachedAt,
+		failures
+	};
+}
+
+// Bump when SpeciesMapStats gains fields so older cached stats are recomputed
+const MAP_STATS_FORMAT = 3;
+
+/**
+ * Map stats only depend on the detections and logger positions, so they are
+ * reused until either file changes. Otherwise they are computed in the
+ * background and don't hold up loading.
+ */
+async function seasonMapStats(
+	season: SeasonConfig,
+	speciesData: SpeciesData,
+	ndviFile: NdviData | null,
+	loggerPositions: Map<string, LoggerPosition>
+): Promise<Map<string, SpeciesMapStats>> {
+	const statsKey = `mapStats:${season.id}`;
+	const statsVersion = `${MAP_STATS_FORMAT}|${season.speciesData}@${speciesData.metadata.generatedAt}|${ndviFile?.metadata.generated ?? ''}`;
+	const cached = season.local
+		? null
+		: await getCachedDerived<Map<string, SpeciesMapStats>>(statsKey, statsVersion);
+	if (cached) return cached;
+
+	const job = startMapStatsJob(speciesData.species, gridPositions(loggerPositions), () => {
+		// Stats arriving for the season on screen are passed straight to the map
+		if (job.stats === publishedMapStats) mapStatsWritable.set(job.stats);
+	});
+	mapStatsJobs.get(season.id)?.cancel();
+	mapStatsJobs.set(season.id, job);
+	void job.done.then((stats) => {
+		if (mapStatsJobs.get(season.id) === job) mapStatsJobs.delete(season.id);
+		if (!season.local) void putCachedDerived(statsKey, statsVersion, stats);
+	});
+	return job.stats;
+}
+
+/** Logger positions in British National Grid metres, for the spatial stats */
+function gridPositions(loggerPositions: Map<string, LoggerPosition>): Record<string, [number, number]> {
+	const positions: Record<string, [number, number]> = {};
+	for (const [name, p] of loggerPositions) positions[name] = toBritishGrid(p.longitude, p.latitude);
+	return positions;
+}
+
+function ndviLayers(
+	season: SeasonConfig,
+	ndviFile: NdviData | null
+): Pick<SeasonData, 'loggerPositions' | 'ndviFile' | 'ndviData'> {
+	if (!ndviFile) return { loggerPositions: new Map(), ndviFile: null, ndviData: null };
+	return {
+		loggerPositions: positionsFromNdvi(ndviFile),
+		ndviFile,
+		ndviData: ndviProcessor.process(ndviFile, ndviSettings(season))
+	};
+}
+
+/**
+ * NDVI settings for a season: defaults, then the manifest's, the season's
+ * and finally any changed in the app
+ */
+function ndviSettings(season: SeasonConfig): NdviProcessingConfig {
+	return resolveNdviProcessing(
+		appData.manifest?.ndvi,
+		{ cutoffDate: season.ndviCutoffDate },
+		season.ndvi,
+		ndviOverrides
+	);
+}
+
+/**
+ * Weather for a season's date range from the source set for the season (or the
+ * whole manifest). Local imports bypass the persistent cache.
+ */
+async function seasonWeather(season: SeasonConfig, speciesData: SpeciesData): Promise<WeatherData | null> {
+	const range = speciesData.metadata?.dateRange;
+	if (!range) return null;
+	// Cumulative indices (warmth, frost days) count from 1 January
+	const start = `${range.start.slice(0, 4)}-01-01`;
+	const provider = createWeatherProvider(season.weather ?? appData.manifest?.weather);
+	return season.local
+		? provider.fetchDaily(start, range.end)
+		: loadWeatherData(season, provider, start, range.end);
+}
+
+/**
+ * Fetch the manifest, or use the last one seen when offline
+ */
+async function loadManifest(): Promise<DatasetManifest> {
+	try {
+		const manifest = await fetchManifest();
+		void putCachedDerived('manifest', 'latest', manifest);
+		return manifest;
+	} catch (err) {
+		const cached = await getLatestDerived<DatasetManifest>('manifest');
+		if (!cached) throw err;
+		console.warn('Using cached dataset manifest:', err);
+		return cached.value;
+	}
+}
+
+function resolveSeason(seasonId?: string): SeasonConfig {
+	const manifest = appData.manifest ?? DEFAULT_MANIFEST;
+	const id = seasonId ?? manifest.defaultSeason;
+	const season = getSeason(manifest, id);
+	if (!season) throw new Error(`Unknown season "${id}"`);
+	return season;
+}
+
+function startSeasonLoad(season: SeasonConfig, report?: ProgressReporter): Promise<SeasonData> {
+	const existing = seasonPromises.get(season.id);
+	if (existing) return existing;
+
+	const promise = buildSeasonData(season, report).then(
+		(data) => {
+			loadedSeasons.set(season.id, data);
+			return data;
+		},
+		(err) => {
+			// Allow a later retry instead of caching the failure
+			seasonPromises.delete(season.id);
+			throw err;
 		}
-		
-		// Compute trends (7-day rolling window comparison) - store percentage change
-		const dailyTrends: number[] = new Array(numDays).fill(0);
-		const windowSize = 7;
-		for (let i = windowSize; i < numDays; i++) {
-			const prev = dailyTotals.slice(i - windowSize, i).reduce((a, b) => a + b, 0) / windowSize;
-			const curr = dailyTotals[i];
-			if (prev > 0) {
-				// Store percentage change, capped at ±100% for display
-				dailyTrends[i] = Math.max(-1, Math.min(1, (curr - prev) / prev));
-			}
+	);
+	seasonPromises.set(season.id, promise);
+	return promise;
+}
+
+/** Mirror a season into the top-level AppData fields */
+function applySeason(data: SeasonData) {
+	appData.season = data.season;
+	appData.speciesData = data.speciesData;
+	appData.loggerPositions = data.loggerPositions;
+	appData.ndviData = data.ndviData;
+	appData.weatherData = data.weatherData;
+	appData.speciesMapStats = data.speciesMapStats;
+	appData.cachedAt = data.cachedAt;
+	appData.failures = [...data.failures, ...sharedFailures];
+}
+
+/**
+ * Load a season without making it active, e.g. for season-over-season comparison.
+ * Must be called after loadAllData has fetched the manifest.
+ */
+export function loadSeason(seasonId: string): Promise<SeasonData> {
+	return startSeasonLoad(resolveSeason(seasonId));
+}
+
+/**
+ * Make another season the active one, loading it first if needed
+ */
+export async function switchSeason(seasonId: string): Promise<AppData> {
+	const data = await loadSeason(seasonId);
+	applySeason(data);
+	publishData();
+	return appData;
+}
+
+// ============================================================================
+// NDVI Processing
+// ============================================================================
+
+/**
+ * Set the time step of the chart and the map. Species, map stats and the
+ * weather and NDVI layers are all re-binned to it.
+ */
+export function setTemporalBinning(binning: TemporalBinning): void {
+	temporalBinning = { ...binning };
+	binningWritable.set(temporalBinning);
+	publishBinned();
+}
+
+/**
+ * Change the NDVI quality control or smoothing for every loaded season, or
+ * go back to each season's own settings with null
+ */
+export function setNdviProcessing(overrides: Partial<NdviProcessingConfig> | null): void {
+	ndviOverrides = overrides ? { ...ndviOverrides, ...overrides } : {};
+	for (const data of loadedSeasons.values()) {
+		if (data.ndviFile) data.ndviData = ndviProcessor.process(data.ndviFile, ndviSettings(data.season));
+	}
+	const active = appData.season ? loadedSeasons.get(appData.season.id) : undefined;
+	if (active) applySeason(active);
+	publishData();
+}
+
+/**
+ * Green-up dates per logger for processed NDVI data (e.g. from ndviStore).
+ * Computed in the background on first request and reused after that.
+ */
+export function getPhenology(ndvi: ProcessedNdviData): Promise<Map<string, LoggerPhenology>> {
+	let promise = phenologyResults.get(ndvi);
+	if (!promise) {
+		promise = computePhenologyInBackground(ndvi);
+		// Allow a later retry instead of caching the failure
+		promise.catch(() => phenologyResults.delete(ndvi));
+		phenologyResults.set(ndvi, promise);
+	}
+	return promise;
+}
+
+/**
+ * Flights of one logger in the active season against every smoother, using
+ * the current quality control settings
+ */
+export function getNdviSmootherComparison(loggerName: string): NdviSmootherComparison | null {
+	const data = appData.season ? loadedSeasons.get(appData.season.id) : undefined;
+	if (!data?.ndviFile) return null;
+	return compareNdviSmoothers(data.ndviFile, loggerName, ndviSettings(data.season));
+}
+
+// ============================================================================
+// Retrying
+// ============================================================================
+
+/**
+ * Load one shared optional layer into AppData, replacing any earlier failure
+ */
+async function loadSharedStage(stage: 'birds' | 'perimeter' | 'layers', log: CacheLog): Promise<void> {
+	sharedFailures = sharedFailures.filter((f) => f.stage !== stage);
+	try {
+		if (stage === 'birds') {
+			appData.birdData = await loadBirdData(log);
+		} else if (stage === 'perimeter') {
+			const config = appData.manifest?.perimeter;
+			perimeterLayer = config
+				? await loadVectorLayer({ ...config, id: 'perimeter', kind: 'perimeter' }, log)
+				: null;
+			applyVectorLayers();
+		} else {
+			// Keep the layers that loaded; the first failure is reported
+			const results = await Promise.allSettled(
+				(appData.manifest?.layers ?? []).map((config) => loadVectorLayer(config, log))
+			);
+			overlayLayers = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+			applyVectorLayers();
+			const failed = results.find((r) => r.status === 'rejected');
+			if (failed) throw failed.reason;
 		}
-		
-		// Compute concentration using Gini coefficient (higher = more concentrated)
-		// Gini measures inequality in the distribution of detections across sites
-		const dailyClustering: number[] = new Array(numDays).fill(0);
-		for (let i = 0; i < numDays; i++) {
-			const values = dailySiteValues[i];
-			const totalDetections = dailyTotals[i];
-			
-			if (totalDetections > 0) {
-				// Sort values in ascending order
-				const sorted = [...values].sort((a, b) => a - b);
-				const n = sorted.length;
-				
-				// Gini coefficient calculation
-				let numerator = 0;
-				for (let j = 0; j < n; j++) {
-					numerator += (j + 1) * sorted[j];
-				}
-				const gini = (2 * numerator) / (n * totalDetections) - (n + 1) / n;
-				
-				// Ensure non-negative (can be slightly negative due to floating point)
-				dailyClustering[i] = Math.max(0, gini);
+	} catch (err) {
+		sharedFailures.push(recordFailure(stage, err));
+	}
+}
+
+/**
+ * Try a failed optional stage again for the active season and update
+ * AppData in place. Resolves to true if the stage now succeeded.
+ */
+export async function retryStage(stage: OptionalStage): Promise<boolean> {
+	const data = appData.season ? loadedSeasons.get(appData.season.id) : undefined;
+
+	if (stage === 'birds' || stage === 'perimeter' || stage === 'layers') {
+		const log: CacheLog = { cachedAt: appData.cachedAt };
+		await loadSharedStage(stage, log);
+		appData.cachedAt = log.cachedAt;
+	} else if (data) {
+		const failures = data.failures.filter((f) => f.stage !== stage);
+		const log: CacheLog = { cachedAt: data.cachedAt };
+		try {
+			if (stage === 'ndvi') {
+				Object.assign(data, ndviLayers(data.season, await loadNdviFile(data.season, log)));
+				// The spatial stats need the logger positions that just arrived
+				data.speciesMapStats = await seasonMapStats(
+					data.season,
+					data.speciesData,
+					data.ndviFile,
+					data.loggerPositions
+				);
+			} else {
+				data.weatherData = await seasonWeather(data.season, data.speciesData);
 			}
+		} catch (err) {
+			failures.push(recordFailure(stage, err));
 		}
-		
-		// Cumulative totals
-		const cumulativeTotal: number[] = new Array(numDays).fill(0);
-		let runningSum = 0;
-		for (let i = 0; i < numDays; i++) {
-			runningSum += dailyTotals[i];
-			cumulativeTotal[i] = runningSum;
-		}
-		
-		const maxDailyTotal = Math.max(...dailyTotals, 1);
-		
-		statsMap.set(sp.name, {
-			globalMax: globalMax || 1,
-			dailyTotals,
-			maxDailyTotal,
-			dailyTrends,
-			dailyClustering,
-			cumulativeTotal,
-			activeSiteCounts,
-			totalActiveSites: sitesWithDetections.size
-		});
+		data.failures = failures;
+		data.cachedAt = log.cachedAt;
 	}
-	
-	return statsMap;
+
+	if (data) applySeason(data);
+	publishData();
+	return !appData.failures.some((f) => f.stage === stage);
+}
+
+/**
+ * Start over: forget every loaded season and cached download, then run the
+ * full load again for the same season
+ */
+export function reload(): Promise<AppData> {
+	const seasonId = appData.season && !appData.season.local ? appData.season.id : undefined;
+	loadPromise = null;
+	seasonPromises.clear();
+	loadedSeasons.clear();
+	sharedFailures = [];
+	perimeterLayer = null;
+	overlayLayers = [];
+	mapStatsJobs.forEach((job) => job.cancel());
+	mapStatsJobs.clear();
+	ndviProcessor.clear();
+	phenologyResults = new WeakMap();
+	clearResourceCache();
+	appData = emptyAppData();
+	loadingState = { stage: 'idle', message: 'Initializing...', progress: 0, issues: [] };
+	publishLoading();
+	publishData();
+	return loadAllData(lastImageMap, seasonId);
+}
+
+// ============================================================================
+// Local Import
+// ============================================================================
+
+let localImportCount = 0;
+
+/**
+ * Load data files from the user's disk and make them the active season.
+ * Files go through the same parsing, validation and processing as deployed
+ * files but are never written to the persistent cache. A perimeter shapefile
+ * or GeoJSON replaces the study area outline for the rest of the session.
+ *
+ * Throws DataValidationError (with the per-field report) if a file is invalid;
+ * otherwise returns any validation warnings.
+ */
+export async function importLocalFiles(files: LocalFile[]): Promise<ValidationIssue[]> {
+	const pick = (role: LocalFileRole) => files.find((f) => f.role === role)?.file ?? null;
+	const speciesFile = pick('species');
+	const loggerFile = pick('loggers');
+	if (!speciesFile || !loggerFile) {
+		const missing = [
+			!speciesFile && 'a detections file (species_data.json or .bin)',
+			!loggerFile && 'a logger positions file (NDVI .json or .csv)'
+		].filter(Boolean);
+		throw new Error(`Also needed: ${missing.join(' and ')}`);
+	}
+
+	const issues: ValidationIssue[] = [];
+	const check: ValidationSink = (result) => {
+		issues.push(...result.errors, ...result.warnings);
+		throwIfInvalid(result);
+	};
+	const source = (file: File) => `Local / ${file.name}`;
+
+	const speciesData = parseSpeciesData(await speciesFile.arrayBuffer(), source(speciesFile), check);
+	const loggerText = await loggerFile.text();
+	const ndviFile = checkNdviFile(
+		loggerFile.name.toLowerCase().endsWith('.csv')
+			? ndviFromCsv(loggerText, source(loggerFile))
+			: JSON.parse(loggerText),
+		source(loggerFile),
+		check
+	);
+
+	// A fresh id per import so views keyed on the season remount
+	const firstDate = speciesData.species[0]?.timeSeries.dates[0];
+	const season: SeasonConfig = {
+		id: `local-${++localImportCount}`,
+		label: 'Local',
+		year: new Date(firstDate ?? Date.now()).getUTCFullYear(),
+		speciesData: speciesFile.name,
+		ndviData: loggerFile.name,
+		local: true
+	};
+	const data = await assembleSeasonData(season, speciesData, ndviFile, { cachedAt: null });
+	// Species names come from bird_data.json, which is missing if the main load failed early
+	if (!appData.birdData) await loadSharedStage('birds', { cachedAt: null });
+
+	const shp = pick('shp');
+	const geojson = pick('geojson');
+	if (shp || geojson) {
+		const dbf = pick('dbf');
+		const prj = pick('prj');
+		const prjText = prj ? await prj.text() : undefined;
+		const features = shp
+			? await parseShapefile(
+					await shp.arrayBuffer(),
+					dbf ? await dbf.arrayBuffer() : undefined,
+					prjText
+				)
+			: parseGeoJson(JSON.parse(await geojson!.text()), prjText);
+		perimeterLayer = createVectorLayer({ id: 'perimeter', kind: 'perimeter' }, features);
+		applyVectorLayers();
+		// The dropped outline stands in for a deployed one that failed to load
+		sharedFailures = sharedFailures.filter((f) => f.stage !== 'perimeter');
+	}
+
+	// Replace any earlier import
+	const manifest = appData.manifest ?? DEFAULT_MANIFEST;
+	for (const old of manifest.seasons.filter((s) => s.local)) {
+		mapStatsJobs.get(old.id)?.cancel();
+		mapStatsJobs.delete(old.id);
+		seasonPromises.delete(old.id);
+		loadedSeasons.delete(old.id);
+	}
+	appData.manifest = { ...manifest, seasons: [...manifest.seasons.filter((s) => !s.local), season] };
+	seasonPromises.set(season.id, Promise.resolve(data));
+	loadedSeasons.set(season.id, data);
+
+	applySeason(data);
+	if (loadingState.stage !== 'complete') updateProgress('complete', 'Ready', 100);
+	publishData();
+	return issues;
 }
 
 // ============================================================================
 // Main Load Function
 // ============================================================================
 
-export async function loadAllData(imageMap: Record<string, string>): Promise<AppData> {
-	// Return existing promise if already loading
+export async function loadAllData(imageMap: Record<string, string>, seasonId?: string): Promise<AppData> {
+	// Return existing promise if already loading (a failed load is not kept)
 	if (loadPromise) return loadPromise;
+	lastImageMap = imageMap;
 
 	loadPromise = (async () => {
 		try {
-			// Stage 1: Species data (biggest file, most critical)
-			updateProgress('species', 'Loading detection data...', 10);
-			appData.speciesData = await loadSpeciesData();
-			
-			// Stage 2: Logger positions (needed for map)
-			updateProgress('loggers', 'Loading sensor network...', 30);
-			appData.loggerPositions = await loadLoggerPositions();
-			
-			// Stage 2.5: Study area perimeter
-			updateProgress('loggers', 'Loading study area boundary...', 35);
-			appData.perimeterCoordinates = await loadPerimeterCoordinates();
-			
-			// Stage 3: Bird metadata
-			updateProgress('birds', 'Loading species info...', 45);
-			appData.birdData = await loadBirdData();
-			
-			// Stage 4: NDVI data (already fetched with loggers, just process)
-			updateProgress('ndvi', 'Processing vegetation data...', 55);
-			appData.ndviData = await loadNdviData();
-			
-			// Stage 5: Pre-compute map stats for all species
-			updateProgress('processing', 'Pre-computing visualizations...', 65);
-			if (appData.speciesData) {
-				appData.speciesMapStats = precomputeMapStats(appData.speciesData);
-			}
-			
-			// Stage 6: Weather data (optional, don't block on failure)
-			updateProgress('weather', 'Fetching weather history...', 80);
-			if (appData.speciesData?.metadata?.dateRange) {
-				appData.weatherData = await loadWeatherData(
-					appData.speciesData.metadata.dateRange.start,
-					appData.speciesData.metadata.dateRange.end
-				);
-			}
+			// Stage 0: Dataset manifest (which seasons exist and where their files live)
+			updateProgress('species', 'Loading dataset manifest...', 5);
+			appData.manifest = await loadManifest();
+
+			// Stages 1-5: Detections, loggers, NDVI, map stats and weather for the season
+			const season = resolveSeason(seasonId);
+			const seasonData = await startSeasonLoad(season, updateProgress);
+
+			// Stage 6: Shared across seasons - species info, study area and map overlays (all optional)
+			updateProgress('birds', 'Loading species info and study area...', 86);
+			const shared: CacheLog = { cachedAt: seasonData.cachedAt };
+			await Promise.all([
+				loadSharedStage('birds', shared),
+				loadSharedStage('perimeter', shared),
+				loadSharedStage('layers', shared)
+			]);
+			applySeason(seasonData);
+			appData.cachedAt = shared.cachedAt;
 			
 			// Stage 7: Preload images
 			updateProgress('images', 'Loading illustrations...', 92);
@@ -426,12 +1137,17 @@ export async function loadAllData(imageMap: Record<string, string>): Promise<App
 			
 			// Complete!
 			updateProgress('complete', 'Ready', 100);
-			notifyDataSubscribers();
+			publishData();
 			
 			return appData;
 		} catch (err) {
 			const message = err instanceof Error ? err.message : 'Unknown error';
-			updateProgress('error', 'Failed to load data', 0, message);
+			const failure = err instanceof DataValidationError
+				? `Invalid data in ${err.result.source}`
+				: 'Failed to load data';
+			updateProgress('error', failure, 0, message);
+			// Let a later call (or reload()) try again
+			loadPromise = null;
 			throw err;
 		}
 	})();
@@ -463,11 +1179,37 @@ export function getWeatherData(): WeatherData | null {
 	return appData.weatherData;
 }
 
-export function getSpeciesMapStats(speciesName: string): SpeciesMapStats | null {
-	return appData.speciesMapStats.get(speciesName) || null;
+/**
+ * Map stats for a species in the active season at the temporal binning.
+ * Resolves straight away once computed; if still pending, the species is
+ * computed next.
+ */
+export function getSpeciesMapStats(speciesName: string): Promise<SpeciesMapStats | null> {
+	const ready = publishedMapStats.get(speciesName);
+	if (ready) return Promise.resolve(ready);
+	if (binnedSeason) return binnedSeason.job.request(speciesName);
+	const job = appData.season ? mapStatsJobs.get(appData.season.id) : undefined;
+	return job ? job.request(speciesName) : Promise.resolve(null);
+}
+
+export function getTemporalBinning(): TemporalBinning {
+	return temporalBinning;
+}
+
+export function getManifest(): DatasetManifest | null {
+	return appData.manifest;
+}
+
+export function getActiveSeason(): SeasonConfig | null {
+	return appData.season;
+}
+
+/** Data for an already-loaded season, or null if it has not been loaded */
+export function getSeasonData(seasonId: string): SeasonData | null {
+	return loadedSeasons.get(seasonId) ?? null;
 }
 
-export function getPerimeterCoordinates(): Array<{lat: number, lon: number}[]> | null {
+export function getPerimeterCoordinates(): LonLat[][][] | null {
 	return appData.perimeterCoordinates;
 }
 
@@ -0,0 +1,624 @@
+/**
+ * Data Validation - Schema checks for the static data files
+ *
+ * Validates species_data.json, the logger NDVI file and bird_data.json before
+ * they reach the rest of the app, so a malformed export fails early with a
+ * per-field report instead of breaking deep inside the chart or map code.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/** A single problem found in a data file */
+export interface ValidationIssue {
+	severity: ValidationSeverity;
+	source: string; // File the issue was found in
+	path: string; // Dotted path to the offending field, e.g. species[2].timeSeries.mean
+	message: string;
+	expected?: string;
+	actual?: string;
+}
+
+export interface ValidationResult {
+	source: string;
+	errors: ValidationIssue[];
+	warnings: ValidationIssue[];
+}
+
+/**
+ * Thrown by loaders when a file has validation errors.
+ * Carries the full result so the UI can render every issue.
+ */
+export class DataValidationError extends Error {
+	readonly result: ValidationResult;
+
+	constructor(result: ValidationResult) {
+		const count = result.errors.length;
+		super(`${result.source} has ${count} validation error${count === 1 ? '' : 's'}`);
+		this.name = 'DataValidationError';
+		this.result = result;
+	}
+}
+
+// Stop collecting warnings after this many per file; one odd column can
+// otherwise produce thousands of identical entries. Errors are never dropped,
+// as any one of them fails the file.
+const MAX_WARNINGS = 100;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+class IssueCollector {
+	readonly errors: ValidationIssue[] = [];
+	readonly warnings: ValidationIssue[] = [];
+	private truncated = 0;
+
+	constructor(readonly source: string) {}
+
+	error(path: string, message: string, expected?: string, actual?: unknown) {
+		this.add('error', path, message, expected, actual);
+	}
+
+	warn(path: string, message: string, expected?: string, actual?: unknown) {
+		this.add('warning', path, message, expected, actual);
+	}
+
+	private add(
+		severity: ValidationSeverity,
+		path: string,
+		message: string,
+		expected?: string,
+		actual?: unknown
+	) {
+		if (severity === 'warning' && this.warnings.length >= MAX_WARNINGS) {
+			this.truncated++;
+			return;
+		}
+		const issue: ValidationIssue = {
+			severity,
+			source: this.source,
+			path,
+			message,
+			expected,
+			actual: actual === undefined ? undefined : describe(actual)
+		};
+		(severity === 'error' ? this.errors : this.warnings).push(issue);
+	}
+
+	result(): ValidationResult {
+		if (this.truncated > 0) {
+			this.warnings.push({
+				severity: 'warning',
+				source: this.source,
+				path: '',
+				message: `${this.truncated} further warnings not shown`
+			});
+		}
+		return { source: this.source, errors: this.errors, warnings: this.warnings };
+	}
+}
+
+/** Short human-readable description of a value for the "actual" column */
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return `array(${value.length})`;
+	if (typeof value === 'object') return 'object';
+	if (typeof value === 'string')
+		return value.length > 40 ? `"${value.slice(0, 37)}..."` : `"${value}"`;
+	return String(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isDateString(value: unknown): value is string {
+	return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value));
+}
+
+function expectNumber(c: IssueCollector, obj: Record<string, unknown>, key: string, path: string) {
+	if (!isFiniteNumber(obj[key])) {
+		c.error(`${path}.${key}`, 'Missing or non-numeric field', 'number', obj[key]);
+	}
+}
+
+function expectString(c: IssueCollector, obj: Record<string, unknown>, key: string, path: string) {
+	if (typeof obj[key] !== 'string') {
+		c.error(`${path}.${key}`, 'Missing or non-string field', 'string', obj[key]);
+	}
+}
+
+/**
+ * Check a numeric series: right length, and every entry a finite number.
+ * Nulls are tolerated (the app treats them as 0) but reported as warnings.
+ */
+function checkSeries(
+	c: IssueCollector,
+	series: unknown,
+	path: string,
+	expectedLength: number,
+	lengthLabel: string
+): void {
+	if (ArrayBuffer.isView(series)) {
+		// Typed arrays from the packed format are numeric by construction
+		const length = (series as Float32Array).length;
+		if (length !== expectedLength) {
+			c.error(path, `Length differs from ${lengthLabel}`, String(expectedLength), length);
+		}
+		return;
+	}
+	if (!Array.isArray(series)) {
+		c.error(path, 'Missing or non-array series', 'number[]', series);
+		return;
+	}
+	if (series.length !== expectedLength) {
+		c.error(path, `Length differs from ${lengthLabel}`, String(expectedLength), series.length);
+	}
+
+	let nulls = 0;
+	for (let i = 0; i < series.length; i++) {
+		const v = series[i];
+		if (v === null) {
+			nulls++;
+		} else if (!isFiniteNumber(v)) {
+			c.error(`${path}[${i}]`, 'Non-numeric value', 'number', v);
+		} else if (v < 0) {
+			c.warn(`${path}[${i}]`, 'Negative value', '>= 0', v);
+		}
+	}
+	if (nulls > 0) {
+		c.warn(path, `${nulls} null value${nulls === 1 ? '' : 's'} (treated as 0)`);
+	}
+}
+
+// ============================================================================
+// Species Data
+// ============================================================================
+
+/**
+ * Validate a parsed species_data.json file.
+ * Errors are problems that would break rendering; warnings are
+ * inconsistencies the app can tolerate (e.g. stale metadata counts).
+ */
+export function validateSpeciesData(
+	data: unknown,
+	source: string = 'species_data.json'
+): ValidationResult {
+	const c = new IssueCollector(source);
+
+	if (!isObject(data)) {
+		c.error('', 'File is not a JSON object', 'object', data);
+		return c.result();
+	}
+
+	// Metadata
+	const metadata = data.metadata;
+	if (!isObject(metadata)) {
+		c.error('metadata', 'Missing metadata block', 'object', metadata);
+	} else {
+		expectString(c, metadata, 'generatedAt', 'metadata');
+		expectNumber(c, metadata, 'logitThreshold', 'metadata');
+		expectNumber(c, metadata, 'smoothingWindow', 'metadata');
+		expectNumber(c, metadata, 'nSpecies', 'metadata');
+		expectNumber(c, metadata, 'nSites', 'metadata');
+		expectNumber(c, metadata, 'nDays', 'metadata');
+
+		const range = metadata.dateRange;
+		if (!isObject(range)) {
+			c.error('metadata.dateRange', 'Missing date range', '{ start, end }', range);
+		} else {
+			if (!isDateString(range.start)) {
+				c.error('metadata.dateRange.start', 'Invalid date', 'YYYY-MM-DD', range.start);
+			}
+			if (!isDateString(range.end)) {
+				c.error('metadata.dateRange.end', 'Invalid date', 'YYYY-MM-DD', range.end);
+			}
+		}
+	}
+
+	// Species list
+	const species = data.species;
+	if (!Array.isArray(species)) {
+		c.error('species', 'Missing species list', 'array', species);
+		return c.result();
+	}
+	if (species.length === 0) {
+		c.error('species', 'Species list is empty', 'at least 1 species', 0);
+		return c.result();
+	}
+
+	// The chart takes its date axis from the first species, so all others must match it
+	let referenceDates: string[] | null = null;
+	const allSites = new Set<string>();
+	const names = new Set<string>();
+
+	species.forEach((sp: unknown, s: number) => {
+		const path = `species[${s}]`;
+		if (!isObject(sp)) {
+			c.error(path, 'Species entry is not an object', 'object', sp);
+			return;
+		}
+
+		expectString(c, sp, 'name', path);
+		expectNumber(c, sp, 'total', path);
+		expectNumber(c, sp, 'rank', path);
+
+		if (typeof sp.name === 'string') {
+			if (names.has(sp.name)) c.error(`${path}.name`, 'Duplicate species name', 'unique', sp.name);
+			names.add(sp.name);
+		}
+
+		const ts = sp.timeSeries;
+		const tsPath = `${path}.timeSeries`;
+		if (!isObject(ts)) {
+			c.error(tsPath, 'Missing time series', '{ dates, mean, sites }', ts);
+			return;
+		}
+
+		const dates = ts.dates;
+		if (!Array.isArray(dates)) {
+			c.error(`${tsPath}.dates`, 'Missing dates array', 'string[]', dates);
+			return;
+		}
+
+		let previous = '';
+		for (let i = 0; i < dates.length; i++) {
+			if (!isDateString(dates[i])) {
+				c.error(`${tsPath}.dates[${i}]`, 'Invalid date', 'YYYY-MM-DD', dates[i]);
+			} else if (previous && dates[i] <= previous) {
+				c.error(
+					`${tsPath}.dates[${i}]`,
+					'Dates are not strictly increasing',
+					`> ${previous}`,
+					dates[i]
+				);
+			}
+			previous = typeof dates[i] === 'string' ? dates[i] : previous;
+		}
+
+		if (referenceDates === null) {
+			referenceDates = dates as string[];
+		} else if (
+			dates.length !== referenceDates.length ||
+			dates[0] !== referenceDates[0] ||
+			dates[dates.length - 1] !== referenceDates[referenceDates.length - 1]
+		) {
+			c.error(
+				`${tsPath}.dates`,
+				'Date axis differs from species[0]',
+				`${referenceDates.length} days from ${referenceDates[0]}`,
+				`${dates.length} days from ${dates[0]}`
+			);
+		}
+
+		checkSeries(c, ts.mean, `${tsPath}.mean`, dates.length, `${tsPath}.dates`);
+
+		const sites = ts.sites;
+		if (!isObject(sites)) {
+			c.error(`${tsPath}.sites`, 'Missing per-site series', 'object', sites);
+			return;
+		}
+		for (const [site, series] of Object.entries(sites)) {
+			allSites.add(site);
+			checkSeries(c, series, `${tsPath}.sites.${site}`, dates.length, `${tsPath}.dates`);
+		}
+	});
+
+	// Cross-check metadata against the data actually present
+	if (isObject(metadata)) {
+		if (isFiniteNumber(metadata.nSpecies) && metadata.nSpecies !== species.length) {
+			c.warn(
+				'metadata.nSpecies',
+				'Disagrees with number of species',
+				String(species.length),
+				metadata.nSpecies
+			);
+		}
+		if (isFiniteNumber(metadata.nSites) && metadata.nSites !== allSites.size) {
+			c.warn(
+				'metadata.nSites',
+				'Disagrees with number of distinct sites',
+				String(allSites.size),
+				metadata.nSites
+			);
+		}
+		const ref = referenceDates as string[] | null;
+		if (ref && ref.length > 0) {
+			if (isFiniteNumber(metadata.nDays) && metadata.nDays !== ref.length) {
+				c.warn(
+					'metadata.nDays',
+					'Disagrees with length of dates',
+					String(ref.length),
+					metadata.nDays
+				);
+			}
+			const range = metadata.dateRange;
+			if (isObject(range)) {
+				if (isDateString(range.start) && range.start.slice(0, 10) !== ref[0].slice(0, 10)) {
+					c.warn('metadata.dateRange.start', 'Disagrees with first date', ref[0], range.start);
+				}
+				const last = ref[ref.length - 1];
+				if (isDateString(range.end) && range.end.slice(0, 10) !== last.slice(0, 10)) {
+					c.warn('metadata.dateRange.end', 'Disagrees with last date', last, range.end);
+				}
+			}
+		}
+	}
+
+	return c.result();
+}
+
+// ============================================================================
+// Packed Species Data
+// ============================================================================
+
+const PACKED_BYTES: Record<string, number> = { float32: 4, uint16: 2 };
+
+/**
+ * Check one column descriptor: known dtype, expected length, aligned and
+ * inside the file
+ */
+function checkPackedColumn(
+	c: IssueCollector,
+	column: unknown,
+	path: string,
+	expectedLength: number,
+	byteLength: number
+): void {
+	if (!isObject(column)) {
+		c.error(path, 'Missing column descriptor', '{ offset, length, dtype }', column);
+		return;
+	}
+	const bytes = typeof column.dtype === 'string' ? PACKED_BYTES[column.dtype] : undefined;
+	if (!bytes) {
+		c.error(`${path}.dtype`, 'Unknown column type', 'float32 | uint16', column.dtype);
+		return;
+	}
+	if (column.length !== expectedLength) {
+		c.error(`${path}.length`, 'Column length mismatch', String(expectedLength), column.length);
+	}
+	if (!isFiniteNumber(column.offset) || column.offset % bytes !== 0) {
+		c.error(`${path}.offset`, 'Column offset not aligned', `multiple of ${bytes}`, column.offset);
+		return;
+	}
+	const end = column.offset + expectedLength * bytes;
+	if (end > byteLength) {
+		c.error(path, 'Column extends past end of file', `<= ${byteLength} bytes`, `${end} bytes`);
+	}
+}
+
+/**
+ * Validate the JSON header of a packed species file against the file size.
+ * The decoded series are checked afterwards by validateSpeciesData.
+ */
+export function validatePackedHeader(
+	header: unknown,
+	byteLength: number,
+	source: string = 'species_data.bin'
+): ValidationResult {
+	const c = new IssueCollector(source);
+
+	if (!isObject(header)) {
+		c.error('header', 'Header is not a JSON object', 'object', header);
+		return c.result();
+	}
+	if (!isObject(header.metadata)) {
+		c.error('header.metadata', 'Missing metadata block', 'object', header.metadata);
+	}
+	if (!Array.isArray(header.dates) || !header.dates.every(isDateString)) {
+		c.error('header.dates', 'Missing or invalid dates', 'YYYY-MM-DD[]', header.dates);
+		return c.result();
+	}
+	if (!Array.isArray(header.sites) || !header.sites.every((s) => typeof s === 'string')) {
+		c.error('header.sites', 'Missing or invalid site list', 'string[]', header.sites);
+		return c.result();
+	}
+	if (!Array.isArray(header.species) || header.species.length === 0) {
+		c.error('header.species', 'Missing species list', 'non-empty array', header.species);
+		return c.result();
+	}
+
+	const nDays = header.dates.length;
+	const nSites = header.sites.length;
+	header.species.forEach((sp: unknown, s: number) => {
+		const path = `header.species[${s}]`;
+		if (!isObject(sp)) {
+			c.error(path, 'Species entry is not an object', 'object', sp);
+			return;
+		}
+		expectString(c, sp, 'name', path);
+		expectNumber(c, sp, 'total', path);
+		expectNumber(c, sp, 'rank', path);
+		checkPackedColumn(c, sp.mean, `${path}.mean`, nDays, byteLength);
+		checkPackedColumn(c, sp.sites, `${path}.sites`, nSites * nDays, byteLength);
+	});
+
+	return c.result();
+}
+
+// ============================================================================
+// NDVI Data
+// ============================================================================
+
+const NDVI_SERIES = ['flights', 'ndvi_mean', 'ndvi_std', 'ndvi_min', 'ndvi_max'] as const;
+
+/**
+ * Validate a parsed logger NDVI file. The same file supplies logger
+ * positions, so coordinate problems are reported as errors.
+ */
+export function validateNdviData(data: unknown, source: string = 'NDVI file'): ValidationResult {
+	const c = new IssueCollector(source);
+
+	if (!isObject(data)) {
+		c.error('', 'File is not a JSON object', 'object', data);
+		return c.result();
+	}
+
+	const metadata = data.metadata;
+	if (!isObject(metadata)) {
+		c.warn('metadata', 'Missing metadata block', 'object', metadata);
+	} else {
+		if (typeof metadata.generated !== 'string') {
+			c.warn('metadata.generated', 'Missing generation timestamp', 'string', metadata.generated);
+		}
+	}
+
+	const loggers = data.loggers;
+	if (!isObject(loggers)) {
+		c.error('loggers', 'Missing loggers object', 'object', loggers);
+		return c.result();
+	}
+	const names = Object.keys(loggers);
+	if (names.length === 0) {
+		c.error('loggers', 'No loggers in file', 'at least 1 logger', 0);
+	}
+
+	let records = 0;
+	for (const name of names) {
+		const path = `loggers.${name}`;
+		const logger = loggers[name];
+		if (!isObject(logger)) {
+			c.error(path, 'Logger entry is not an object', 'object', logger);
+			continue;
+		}
+
+		if (!isFiniteNumber(logger.latitude) || logger.latitude < -90 || logger.latitude > 90) {
+			c.error(`${path}.latitude`, 'Invalid latitude', '-90 to 90', logger.latitude);
+		}
+		if (!isFiniteNumber(logger.longitude) || logger.longitude < -180 || logger.longitude > 180) {
+			c.error(`${path}.longitude`, 'Invalid longitude', '-180 to 180', logger.longitude);
+		}
+
+		const ts = logger.timeseries;
+		if (!isObject(ts)) {
+			c.error(`${path}.timeseries`, 'Missing timeseries', 'object', ts);
+			continue;
+		}
+		const dates = ts.dates;
+		if (!Array.isArray(dates)) {
+			c.error(`${path}.timeseries.dates`, 'Missing dates array', 'string[]', dates);
+			continue;
+		}
+		records += dates.length;
+
+		// Repeat flights are common, so they are one warning per logger
+		const seen = new Set<string>();
+		const duplicates: string[] = [];
+		for (let i = 0; i < dates.length; i++) {
+			if (!isDateString(dates[i])) {
+				c.error(`${path}.timeseries.dates[${i}]`, 'Invalid date', 'YYYY-MM-DD', dates[i]);
+			} else if (seen.has(dates[i])) {
+				duplicates.push(dates[i]);
+			}
+			seen.add(dates[i]);
+		}
+		if (duplicates.length > 0) {
+			c.warn(
+				`${path}.timeseries.dates`,
+				`${duplicates.length} duplicate flight date${duplicates.length === 1 ? '' : 's'}`,
+				'unique',
+				duplicates[0]
+			);
+		}
+
+		for (const key of NDVI_SERIES) {
+			const series = ts[key];
+			const seriesPath = `${path}.timeseries.${key}`;
+			if (!Array.isArray(series)) {
+				// Only the mean is required for the chart; the rest are descriptive
+				if (key === 'ndvi_mean') c.error(seriesPath, 'Missing series', 'number[]', series);
+				else c.warn(seriesPath, 'Missing series', 'number[]', series);
+				continue;
+			}
+			if (series.length !== dates.length) {
+				c.error(seriesPath, 'Length differs from dates', String(dates.length), series.length);
+			}
+		}
+
+		const means = ts.ndvi_mean;
+		if (Array.isArray(means)) {
+			for (let i = 0; i < means.length; i++) {
+				const v = means[i];
+				if (v !== null && (!isFiniteNumber(v) || v < -1 || v > 1)) {
+					c.warn(`${path}.timeseries.ndvi_mean[${i}]`, 'NDVI outside valid range', '-1 to 1', v);
+				}
+			}
+		}
+	}
+
+	if (isObject(metadata)) {
+		if (isFiniteNumber(metadata.n_loggers) && metadata.n_loggers !== names.length) {
+			c.warn(
+				'metadata.n_loggers',
+				'Disagrees with number of loggers',
+				String(names.length),
+				metadata.n_loggers
+			);
+		}
+		if (isFiniteNumber(metadata.n_records) && metadata.n_records !== records) {
+			c.warn(
+				'metadata.n_records',
+				'Disagrees with number of records',
+				String(records),
+				metadata.n_records
+			);
+		}
+	}
+
+	return c.result();
+}
+
+// ============================================================================
+// Bird Data
+// ============================================================================
+
+/** Validate bird_data.json (scientific name -> common name and eBird code) */
+export function validateBirdData(
+	data: unknown,
+	source: string = 'bird_data.json'
+): ValidationResult {
+	const c = new IssueCollector(source);
+
+	if (!isObject(data)) {
+		c.error('', 'File is not a JSON object', 'object', data);
+		return c.result();
+	}
+
+	for (const [name, entry] of Object.entries(data)) {
+		const path = JSON.stringify(name);
+		if (!isObject(entry)) {
+			c.error(path, 'Entry is not an object', '{ common_name, species_code }', entry);
+			continue;
+		}
+		if (typeof entry.common_name !== 'string' || entry.common_name.length === 0) {
+			c.error(`${path}.common_name`, 'Missing common name', 'string', entry.common_name);
+		}
+		if (typeof entry.species_code !== 'string' || entry.species_code.length === 0) {
+			c.warn(`${path}.species_code`, 'Missing species code', 'string', entry.species_code);
+		}
+	}
+
+	return c.result();
+}
+
+// ============================================================================
+// Assertions
+// ============================================================================
+
+/**
+ * Throw a DataValidationError if the result has errors.
+ * Warnings are left for the caller to surface.
+ */
+export function throwIfInvalid(result: ValidationResult): void {
+	if (result.errors.length > 0) {
+		throw new DataValidationError(result);
+	}
+}
@@ -0,0 +1,207 @@
+/**
+ * GIF Encoder - Animated GIFs from canvas frames
+ *
+ * Frames are added one at a time so a long animation never has to be held in
+ * memory as pixels. Each frame gets its own 256-colour palette by median cut
+ * over a 15-bit colour histogram, which keeps gradients smooth on dark maps.
+ * Alpha is ignored; draw frames on an opaque background.
+ */
+
+export interface GifWriter {
+	/** Add a frame shown for `delay` milliseconds (GIF rounds to 10 ms) */
+	addFrame(pixels: Uint8ClampedArray, delay: number): void;
+	/** Finish the file */
+	finish(): Blob;
+}
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+interface ColorBox {
+	buckets: number[];
+	count: number;
+}
+
+/**
+ * Median-cut palette for one frame. Returns the palette (RGB triples) and the
+ * palette index of every 15-bit colour bucket.
+ */
+function quantize(pixels: Uint8ClampedArray): {
+	palette: Uint8Array<ArrayBuffer>;
+	lookup: Uint8Array;
+} {
+	const counts = new Uint32Array(32768);
+	const sums = new Float64Array(32768 * 3);
+	for (let i = 0; i < pixels.length; i += 4) {
+		const key = ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+		counts[key]++;
+		sums[key * 3] += pixels[i];
+		sums[key * 3 + 1] += pixels[i + 1];
+		sums[key * 3 + 2] += pixels[i + 2];
+	}
+
+	const used: number[] = [];
+	let total = 0;
+	for (let key = 0; key < counts.length; key++) {
+		if (counts[key] > 0) {
+			used.push(key);
+			total += counts[key];
+		}
+	}
+
+	const channel = (key: number, c: number) => (key >> (10 - 5 * c)) & 31;
+	const boxes: ColorBox[] = [{ buckets: used, count: total }];
+	while (boxes.length < PALETTE_SIZE) {
+		// Split the most populous box that still holds more than one colour
+		let target = -1;
+		for (let i = 0; i < boxes.length; i++) {
+			if (boxes[i].buckets.length > 1 && (target < 0 || boxes[i].count > boxes[target].count)) {
+				target = i;
+			}
+		}
+		if (target < 0) break;
+		const box = boxes[target];
+
+		// Along the channel with the widest range, at the weighted median
+		let widest = 0;
+		let spread = -1;
+		for (let c = 0; c < 3; c++) {
+			let lo = 31;
+			let hi = 0;
+			for (const key of box.buckets) {
+				lo = Math.min(lo, channel(key, c));
+				hi = Math.max(hi, channel(key, c));
+			}
+			if (hi - lo > spread) {
+				spread = hi - lo;
+				widest = c;
+			}
+		}
+		box.buckets.sort((a, b) => channel(a, widest) - channel(b, widest));
+		let running = 0;
+		let split = 1;
+		for (let i = 0; i < box.buckets.length - 1; i++) {
+			running += counts[box.buckets[i]];
+			split = i + 1;
+			if (running >= box.count / 2) break;
+		}
+		const low = box.buckets.slice(0, split);
+		const high = box.buckets.slice(split);
+		const lowCount = low.reduce((sum, key) => sum + counts[key], 0);
+		boxes.splice(
+			target,
+			1,
+			{ buckets: low, count: lowCount },
+			{ buckets: high, count: box.count - lowCount }
+		);
+	}
+
+	const palette = new Uint8Array(PALETTE_SIZE * 3);
+	const lookup = new Uint8Array(32768);
+	boxes.forEach((box, index) => {
+		const rgb = [0, 0, 0];
+		for (const key of box.buckets) {
+			lookup[key] = index;
+			for (let c = 0; c < 3; c++) rgb[c] += sums[key * 3 + c];
+		}
+		for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(rgb[c] / (box.count || 1));
+	});
+	return { palette, lookup };
+}
+
+/** GIF's variable-width LZW, packed into 255-byte sub-blocks */
+function lzwEncode(indices: Uint8Array): Uint8Array<ArrayBuffer> {
+	const clearCode = 1 << MIN_CODE_SIZE;
+	const endCode = clearCode + 1;
+	const out: number[] = [];
+	let block: number[] = [];
+	let bits = 0;
+	let bitCount = 0;
+	let codeSize = MIN_CODE_SIZE + 1;
+
+	const emit = (code: number) => {
+		bits |= code << bitCount;
+		bitCount += codeSize;
+		while (bitCount >= 8) {
+			block.push(bits & 0xff);
+			bits >>>= 8;
+			bitCount -= 8;
+			if (block.length === 255) {
+				out.push(255, ...block);
+				block = [];
+			}
+		}
+	};
+
+	let table = new Map<number, number>();
+	let nextCode = endCode + 1;
+	emit(clearCode);
+	let prefix = indices[0];
+	for (let i = 1; i < indices.length; i++) {
+		const value = indices[i];
+		const key = (prefix << 8) | value;
+		const code = table.get(key);
+		if (code !== undefined) {
+			prefix = code;
+			continue;
+		}
+		emit(prefix);
+		if (nextCode === MAX_CODES) {
+			emit(clearCode);
+			table = new Map();
+			nextCode = endCode + 1;
+			codeSize = MIN_CODE_SIZE + 1;
+		} else {
+			if (nextCode >= 1 << codeSize) codeSize++;
+			table.set(key, nextCode++);
+		}
+		prefix = value;
+	}
+	emit(prefix);
+	emit(endCode);
+	if (bitCount > 0) block.push(bits & 0xff);
+	if (block.length > 0) out.push(block.length, ...block);
+	out.push(0);
+	return Uint8Array.from(out);
+}
+
+/**
+ * Start a GIF of the given size. `loop` repeats it forever.
+ */
+export function createGifWriter(width: number, height: number, loop: boolean = true): GifWriter {
+	const parts: BlobPart[] = [];
+	const bytes = (...values: number[]) => parts.push(Uint8Array.from(values));
+	const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+	parts.push(new TextEncoder().encode('GIF89a'));
+	// Logical screen, no global colour table
+	bytes(...word(width), ...word(height), 0, 0, 0);
+	if (loop) {
+		bytes(0x21, 0xff, 11);
+		parts.push(new TextEncoder().encode('NETSCAPE2.0'));
+		bytes(3, 1, 0, 0, 0);
+	}
+
+	return {
+		addFrame(pixels, delay) {
+			const { palette, lookup } = quantize(pixels);
+			const indices = new Uint8Array(width * height);
+			for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+				indices[i] =
+					lookup[((pixels[p] >> 3) << 10) | ((pixels[p + 1] >> 3) << 5) | (pixels[p + 2] >> 3)];
+			}
+			// Graphic control: delay in hundredths of a second
+			bytes(0x21, 0xf9, 4, 0, ...word(Math.round(delay / 10)), 0, 0);
+			// Image descriptor with a 256-entry local colour table
+			bytes(0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0x87);
+			parts.push(palette);
+			bytes(MIN_CODE_SIZE);
+			parts.push(lzwEncode(indices));
+		},
+		finish() {
+			bytes(0x3b);
+			return new Blob(parts, { type: 'image/gif' });
+		}
+	};
+}
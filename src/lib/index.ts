@@ -3,11 +3,48 @@ export { default as ActivityChart } from './ActivityChart.svelte';
 export { default as SpeciesSelector } from './SpeciesSelector.svelte';
 export { default as ViewControls } from './ViewControls.svelte';
 export { default as KDEMap } from './KDEMap.svelte';
+export { default as ValidationReport } from './ValidationReport.svelte';
+export { default as SeasonSwitcher } from './SeasonSwitcher.svelte';
+export { default as ImportPanel } from './ImportPanel.svelte';
+export { default as MissingLayersBanner } from './MissingLayersBanner.svelte';
+export { default as NdviPanel } from './NdviPanel.svelte';
+export { default as VariogramPlot } from './VariogramPlot.svelte';
+export { default as MapExportDialog } from './MapExportDialog.svelte';
+export { default as LoggerInspector } from './LoggerInspector.svelte';
+export { default as TemporalBinningControls } from './TemporalBinningControls.svelte';
 
 // Types
 export * from './types';
 
 // Services
 export * from './weatherService';
+export * from './stationWeather';
+export * from './weatherIndices';
 export * from './ndviService';
+export * from './ndviSmoothing';
+export * from './phenology';
+export * from './phenologyService';
 export * from './kdeService';
+export * from './kdeRaster';
+export * from './kdeRasterService';
+export * from './metricKde';
+export * from './britishGrid';
+export * from './interpolation';
+export * from './vectorLayers';
+export * from './mapExport';
+export * from './gifEncoder';
+export * from './zipWriter';
+export * from './dataValidation';
+export * from './seasonService';
+export * from './speciesBinary';
+export * from './persistentCache';
+export * from './localImport';
+export * from './resourceLoader';
+export * from './mapStats';
+export * from './mapStatsService';
+export * from './loggerStats';
+export * from './spatialOverlap';
+export * from './spatialStats';
+export * from './activityRange';
+export * from './temporalBinning';
+export * from './timeWindow';
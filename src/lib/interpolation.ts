@@ -0,0 +1,350 @@
+/**
+ * Interpolation - Detection-rate surfaces between loggers
+ *
+ * Two interpolators over British National Grid metres:
+ * - Inverse-distance weighting: a weighted mean of every logger, weights
+ *   falling off as distance^-power. Passes through each logger's value.
+ * - Ordinary kriging: weights from a variogram fitted to the loggers, with a
+ *   prediction variance that grows away from them.
+ *
+ * The variogram is estimated in distance bins (Matheron's estimator) and a
+ * spherical, exponential or Gaussian model is fitted by least squares
+ * weighted by the number of pairs in each bin.
+ */
+
+/** A logger's value at a point in metres */
+export interface SamplePoint {
+	x: number;
+	y: number;
+	value: number;
+}
+
+/** A north-up grid of cells in metres; (x0, y0) is the top-left corner */
+export interface GridSpec {
+	x0: number;
+	y0: number;
+	cellSize: number;
+	cols: number;
+	rows: number;
+}
+
+export interface InterpolatedGrid extends GridSpec {
+	/** Row-major from the top-left cell */
+	values: Float32Array;
+	/** Kriging prediction variance; null for IDW */
+	variance: Float32Array | null;
+}
+
+/** Map layers: the two surfaces and the kriging variance */
+export type InterpolationLayer = 'idw' | 'kriging' | 'variance';
+
+export const INTERPOLATION_LAYERS: Record<
+	InterpolationLayer,
+	{ label: string; description: string }
+> = {
+	idw: { label: 'IDW surface', description: 'Detections per day, inverse-distance weighted' },
+	kriging: { label: 'Kriging surface', description: 'Detections per day, ordinary kriging' },
+	variance: { label: 'Kriging variance', description: 'Prediction variance of the kriging surface' }
+};
+
+export interface VariogramBin {
+	distance: number;
+	semivariance: number;
+	pairs: number;
+}
+
+export type VariogramModel = 'spherical' | 'exponential' | 'gaussian';
+
+export const VARIOGRAM_MODELS: Record<VariogramModel, { label: string }> = {
+	spherical: { label: 'Spherical' },
+	exponential: { label: 'Exponential' },
+	gaussian: { label: 'Gaussian' }
+};
+
+export interface Variogram {
+	model: VariogramModel;
+	nugget: number;
+	/** Partial sill: the total sill is nugget + partialSill */
+	partialSill: number;
+	/** Practical range in metres */
+	range: number;
+}
+
+/** Distance bins of the empirical variogram */
+const VARIOGRAM_LAGS = 12;
+
+/** Ranges tried when fitting a model */
+const RANGE_STEPS = 60;
+
+/** Shape of each model from 0 at the origin to 1 at the (practical) range */
+function modelShape(model: VariogramModel, h: number, range: number): number {
+	const r = h / range;
+	switch (model) {
+		case 'spherical':
+			return r >= 1 ? 1 : 1.5 * r - 0.5 * r * r * r;
+		case 'exponential':
+			return 1 - Math.exp(-3 * r);
+		case 'gaussian':
+			return 1 - Math.exp(-3 * r * r);
+	}
+}
+
+/**
+ * Semivariance of a fitted model at distance h
+ */
+export function variogramValue(variogram: Variogram, h: number): number {
+	if (h === 0) return 0;
+	return variogram.nugget + variogram.partialSill * modelShape(variogram.model, h, variogram.range);
+}
+
+/**
+ * Empirical variogram in equal distance bins up to half the largest
+ * separation. Bins without pairs are left out.
+ */
+export function empiricalVariogram(
+	points: SamplePoint[],
+	lags: number = VARIOGRAM_LAGS
+): VariogramBin[] {
+	let widest = 0;
+	for (let i = 0; i < points.length; i++) {
+		for (let j = i + 1; j < points.length; j++) {
+			widest = Math.max(widest, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+		}
+	}
+	const cutoff = widest / 2;
+	if (cutoff === 0) return [];
+
+	const width = cutoff / lags;
+	const sums = new Float64Array(lags);
+	const distances = new Float64Array(lags);
+	const pairs = new Uint32Array(lags);
+	for (let i = 0; i < points.length; i++) {
+		for (let j = i + 1; j < points.length; j++) {
+			const d = Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y);
+			if (d === 0 || d > cutoff) continue;
+			const bin = Math.min(lags - 1, Math.floor(d / width));
+			sums[bin] += (points[i].value - points[j].value) ** 2;
+			distances[bin] += d;
+			pairs[bin]++;
+		}
+	}
+
+	const bins: VariogramBin[] = [];
+	for (let k = 0; k < lags; k++) {
+		if (pairs[k] === 0) continue;
+		bins.push({
+			distance: distances[k] / pairs[k],
+			semivariance: sums[k] / (2 * pairs[k]),
+			pairs: pairs[k]
+		});
+	}
+	return bins;
+}
+
+/**
+ * Fit one model to the empirical bins. For each candidate range the nugget
+ * and partial sill are a weighted linear least-squares fit, kept non-negative.
+ * Returns the fit and its weighted squared error.
+ */
+export function fitVariogram(
+	bins: VariogramBin[],
+	model: VariogramModel
+): { variogram: Variogram; error: number } | null {
+	if (bins.length < 3) return null;
+	const maxDistance = bins[bins.length - 1].distance;
+	const minDistance = bins[0].distance;
+	let best: { variogram: Variogram; error: number } | null = null;
+
+	for (let step = 0; step < RANGE_STEPS; step++) {
+		const range = minDistance + ((2 * maxDistance - minDistance) * step) / (RANGE_STEPS - 1);
+		// Weighted normal equations for y = nugget + partialSill * f
+		let sw = 0;
+		let sf = 0;
+		let sff = 0;
+		let sy = 0;
+		let sfy = 0;
+		for (const bin of bins) {
+			const f = modelShape(model, bin.distance, range);
+			const w = bin.pairs;
+			sw += w;
+			sf += w * f;
+			sff += w * f * f;
+			sy += w * bin.semivariance;
+			sfy += w * f * bin.semivariance;
+		}
+		const det = sw * sff - sf * sf;
+		let nugget = det > 0 ? (sff * sy - sf * sfy) / det : 0;
+		let partialSill = det > 0 ? (sw * sfy - sf * sy) / det : 0;
+		if (nugget < 0) {
+			nugget = 0;
+			partialSill = sff > 0 ? sfy / sff : 0;
+		}
+		if (partialSill < 0) {
+			partialSill = 0;
+			nugget = sy / sw;
+		}
+
+		const variogram: Variogram = { model, nugget, partialSill, range };
+		let error = 0;
+		for (const bin of bins) {
+			error += bin.pairs * (variogramValue(variogram, bin.distance) - bin.semivariance) ** 2;
+		}
+		if (!best || error < best.error) best = { variogram, error };
+	}
+	return best;
+}
+
+/**
+ * The best-fitting of the three models, or null with too few bins
+ */
+export function fitBestVariogram(bins: VariogramBin[]): Variogram | null {
+	let best: { variogram: Variogram; error: number } | null = null;
+	for (const model of Object.keys(VARIOGRAM_MODELS) as VariogramModel[]) {
+		const fit = fitVariogram(bins, model);
+		if (fit && (!best || fit.error < best.error)) best = fit;
+	}
+	return best?.variogram ?? null;
+}
+
+/**
+ * A grid over the bounds with no more than `maxCells` cells
+ */
+export function gridSpec(
+	bounds: { minX: number; maxX: number; minY: number; maxY: number },
+	maxCells: number = 10000
+): GridSpec {
+	const width = bounds.maxX - bounds.minX;
+	const height = bounds.maxY - bounds.minY;
+	const cellSize = Math.max(1, Math.sqrt((width * height) / maxCells));
+	return {
+		x0: bounds.minX,
+		y0: bounds.maxY,
+		cellSize,
+		cols: Math.max(1, Math.ceil(width / cellSize)),
+		rows: Math.max(1, Math.ceil(height / cellSize))
+	};
+}
+
+/** Centre of each grid cell, row by row from the top-left */
+function forEachCell(grid: GridSpec, visit: (index: number, x: number, y: number) => void) {
+	for (let row = 0; row < grid.rows; row++) {
+		const y = grid.y0 - (row + 0.5) * grid.cellSize;
+		for (let col = 0; col < grid.cols; col++) {
+			visit(row * grid.cols + col, grid.x0 + (col + 0.5) * grid.cellSize, y);
+		}
+	}
+}
+
+/**
+ * Inverse-distance weighted surface
+ */
+export function idwGrid(
+	points: SamplePoint[],
+	grid: GridSpec,
+	power: number = 2
+): InterpolatedGrid {
+	const values = new Float32Array(grid.cols * grid.rows).fill(NaN);
+	if (points.length > 0) {
+		forEachCell(grid, (index, x, y) => {
+			let weighted = 0;
+			let total = 0;
+			for (const p of points) {
+				const d2 = (p.x - x) ** 2 + (p.y - y) ** 2;
+				if (d2 === 0) {
+					weighted = p.value;
+					total = 1;
+					break;
+				}
+				const w = Math.pow(d2, -power / 2);
+				weighted += w * p.value;
+				total += w;
+			}
+			values[index] = weighted / total;
+		});
+	}
+	return { ...grid, values, variance: null };
+}
+
+/** Inverse by Gauss–Jordan elimination with partial pivoting; null if singular */
+function invert(matrix: Float64Array, n: number): Float64Array | null {
+	const a = Float64Array.from(matrix);
+	const inv = new Float64Array(n * n);
+	for (let i = 0; i < n; i++) inv[i * n + i] = 1;
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let row = col + 1; row < n; row++) {
+			if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) pivot = row;
+		}
+		if (Math.abs(a[pivot * n + col]) < 1e-12) return null;
+		if (pivot !== col) {
+			for (let k = 0; k < n; k++) {
+				[a[col * n + k], a[pivot * n + k]] = [a[pivot * n + k], a[col * n + k]];
+				[inv[col * n + k], inv[pivot * n + k]] = [inv[pivot * n + k], inv[col * n + k]];
+			}
+		}
+		const scale = 1 / a[col * n + col];
+		for (let k = 0; k < n; k++) {
+			a[col * n + k] *= scale;
+			inv[col * n + k] *= scale;
+		}
+		for (let row = 0; row < n; row++) {
+			const factor = a[row * n + col];
+			if (row === col || factor === 0) continue;
+			for (let k = 0; k < n; k++) {
+				a[row * n + k] -= factor * a[col * n + k];
+				inv[row * n + k] -= factor * inv[col * n + k];
+			}
+		}
+	}
+	return inv;
+}
+
+/**
+ * Ordinary kriging surface and its prediction variance, or null if the
+ * kriging system is singular (e.g. two loggers at the same spot with no
+ * nugget)
+ */
+export function krigingGrid(
+	points: SamplePoint[],
+	variogram: Variogram,
+	grid: GridSpec
+): InterpolatedGrid | null {
+	const n = points.length;
+	if (n < 2) return null;
+	// Semivariances between loggers, bordered by the unbiasedness constraint
+	const size = n + 1;
+	const system = new Float64Array(size * size);
+	for (let i = 0; i < n; i++) {
+		for (let j = 0; j < n; j++) {
+			const h = Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y);
+			system[i * size + j] = variogramValue(variogram, h);
+		}
+		system[i * size + n] = 1;
+		system[n * size + i] = 1;
+	}
+	const inverse = invert(system, size);
+	if (!inverse) return null;
+
+	const values = new Float32Array(grid.cols * grid.rows);
+	const variance = new Float32Array(grid.cols * grid.rows);
+	const target = new Float64Array(size);
+	target[n] = 1;
+	forEachCell(grid, (index, x, y) => {
+		for (let i = 0; i < n; i++) {
+			target[i] = variogramValue(variogram, Math.hypot(points[i].x - x, points[i].y - y));
+		}
+		let estimate = 0;
+		let error = 0;
+		for (let i = 0; i < size; i++) {
+			// Weight i (or the Lagrange multiplier for i = n)
+			let w = 0;
+			const row = i * size;
+			for (let k = 0; k < size; k++) w += inverse[row + k] * target[k];
+			if (i < n) estimate += w * points[i].value;
+			error += w * target[i];
+		}
+		values[index] = estimate;
+		variance[index] = Math.max(0, error);
+	});
+	return { ...grid, values, variance };
+}
@@ -0,0 +1,294 @@
+/**
+ * KDE Raster - Fast Gaussian density surfaces for the map
+ *
+ * Rather than summing every logger's kernel at every pixel, weights are
+ * linearly binned onto a coarse grid (a few cells per bandwidth), blurred with
+ * a truncated separable Gaussian, and bilinearly upsampled to the output size.
+ * Colours come from a 256-entry RGBA lookup table, so a frame costs the same
+ * whatever the number of loggers. Works in a worker (kdeRaster.worker.ts) as
+ * well as on the main thread.
+ */
+
+/** A weighted point in output pixel coordinates */
+export interface KdePoint {
+	x: number;
+	y: number;
+	weight: number;
+}
+
+export interface KdeFrame {
+	/** Output size in device pixels */
+	width: number;
+	height: number;
+	points: KdePoint[];
+	/** Kernel standard deviation in output pixels */
+	bandwidth: number;
+	/** Density drawn at the top of the colour table; null scales to the frame's peak */
+	maxDensity: number | null;
+}
+
+/**
+ * Up to three species' densities in one frame, one per colour channel (red,
+ * green, blue), so places they share blend to mixed colours
+ */
+export interface KdeCompositeFrame {
+	width: number;
+	height: number;
+	bandwidth: number;
+	channels: { points: KdePoint[]; maxDensity: number | null }[];
+}
+
+export interface KdeGrid {
+	values: Float32Array;
+	cols: number;
+	rows: number;
+	cellSize: number;
+	/** Cells of padding around the output area, so off-screen points still count */
+	pad: number;
+	max: number;
+}
+
+/** Entries in a colour lookup table */
+export const LUT_SIZE = 256;
+
+/** The kernel is cut off at this many standard deviations */
+const KERNEL_EXTENT = 3;
+
+/** Grid cells per bandwidth; enough for bilinear upsampling to look smooth */
+const CELLS_PER_BANDWIDTH = 3;
+
+function gaussianKernel(sigma: number, radius: number): Float32Array {
+	const kernel = new Float32Array(2 * radius + 1);
+	for (let k = -radius; k <= radius; k++) {
+		kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+	}
+	return kernel;
+}
+
+/**
+ * Density of weighted points on a grid. Kernels are unnormalised, so a lone
+ * point of weight 1 peaks at about 1.
+ */
+export function densityGrid(
+	points: KdePoint[],
+	width: number,
+	height: number,
+	bandwidth: number,
+	cellSize: number = Math.max(1, bandwidth / CELLS_PER_BANDWIDTH)
+): KdeGrid {
+	const sigma = bandwidth / cellSize;
+	const radius = Math.max(1, Math.ceil(KERNEL_EXTENT * sigma));
+	const pad = radius;
+	const cols = Math.ceil(width / cellSize) + 2 + 2 * pad;
+	const rows = Math.ceil(height / cellSize) + 2 + 2 * pad;
+	const values = new Float32Array(cols * rows);
+
+	// Linear binning: share each weight between the four surrounding cells
+	for (const { x, y, weight } of points) {
+		const gx = x / cellSize + pad;
+		const gy = y / cellSize + pad;
+		const i = Math.floor(gx);
+		const j = Math.floor(gy);
+		if (i < 0 || j < 0 || i >= cols - 1 || j >= rows - 1) continue;
+		const fx = gx - i;
+		const fy = gy - j;
+		const at = j * cols + i;
+		values[at] += weight * (1 - fx) * (1 - fy);
+		values[at + 1] += weight * fx * (1 - fy);
+		values[at + cols] += weight * (1 - fx) * fy;
+		values[at + cols + 1] += weight * fx * fy;
+	}
+
+	// Separable blur: rows into a scratch grid, then columns back
+	const kernel = gaussianKernel(sigma, radius);
+	const scratch = new Float32Array(values.length);
+	for (let j = 0; j < rows; j++) {
+		const row = j * cols;
+		for (let i = 0; i < cols; i++) {
+			const v = values[row + i];
+			if (v === 0) continue;
+			const from = Math.max(0, i - radius);
+			const to = Math.min(cols - 1, i + radius);
+			for (let k = from; k <= to; k++) scratch[row + k] += v * kernel[k - i + radius];
+		}
+	}
+	values.fill(0);
+	for (let j = 0; j < rows; j++) {
+		const from = Math.max(0, j - radius);
+		const to = Math.min(rows - 1, j + radius);
+		for (let i = 0; i < cols; i++) {
+			const v = scratch[j * cols + i];
+			if (v === 0) continue;
+			for (let k = from; k <= to; k++) values[k * cols + i] += v * kernel[k - j + radius];
+		}
+	}
+
+	let max = 0;
+	for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i];
+	return { values, cols, rows, cellSize, pad, max };
+}
+
+/**
+ * Colour lookup table from a function of normalised density (0–1) to
+ * [r, g, b, alpha] with alpha in 0–1
+ */
+export function createColorLut(
+	color: (t: number) => [number, number, number, number]
+): Uint8ClampedArray {
+	const lut = new Uint8ClampedArray(LUT_SIZE * 4);
+	for (let i = 0; i < LUT_SIZE; i++) {
+		const [r, g, b, a] = color(i / (LUT_SIZE - 1));
+		lut.set([r, g, b, Math.round(a * 255)], i * 4);
+	}
+	return lut;
+}
+
+/**
+ * Single-hue table matching createHeatmapColorFunc: transparent at the
+ * lowest densities, rising to 85% opacity
+ */
+export function heatmapLut(r: number, g: number, b: number): Uint8ClampedArray {
+	return createColorLut((t) => {
+		if (t < 0.01) return [0, 0, 0, 0];
+		return [r, g, b, Math.min(0.85, Math.pow(t, 0.7) * 0.9)];
+	});
+}
+
+/** Bilinear sample positions for one axis of the output */
+function axisSamples(size: number, grid: KdeGrid, limit: number) {
+	const index = new Int32Array(size);
+	const fraction = new Float32Array(size);
+	for (let p = 0; p < size; p++) {
+		const g = Math.min(limit - 1.001, (p + 0.5) / grid.cellSize + grid.pad);
+		index[p] = Math.floor(g);
+		fraction[p] = g - index[p];
+	}
+	return { index, fraction };
+}
+
+/**
+ * Upsample a density grid to RGBA pixels through a colour table. Writes into
+ * `out` if given (it must hold width × height × 4 bytes).
+ */
+export function rasterizeDensity(
+	grid: KdeGrid,
+	lut: Uint8ClampedArray,
+	width: number,
+	height: number,
+	maxDensity: number | null = null,
+	out: Uint8ClampedArray = new Uint8ClampedArray(width * height * 4)
+): Uint8ClampedArray {
+	const pixels = new Uint32Array(out.buffer, out.byteOffset, width * height);
+	pixels.fill(0);
+	const scale = maxDensity ?? grid.max;
+	if (scale <= 0) return out;
+
+	// Same byte layout as the output, so one write per pixel
+	const colors = new Uint32Array(lut.buffer, lut.byteOffset, LUT_SIZE);
+	const top = LUT_SIZE - 1;
+	const factor = top / scale;
+	const xs = axisSamples(width, grid, grid.cols);
+	const ys = axisSamples(height, grid, grid.rows);
+	const { values, cols } = grid;
+
+	for (let py = 0; py < height; py++) {
+		const row = ys.index[py] * cols;
+		const fy = ys.fraction[py];
+		const offset = py * width;
+		for (let px = 0; px < width; px++) {
+			const at = row + xs.index[px];
+			const fx = xs.fraction[px];
+			const upper = values[at] + (values[at + 1] - values[at]) * fx;
+			const lower = values[at + cols] + (values[at + cols + 1] - values[at + cols]) * fx;
+			const v = upper + (lower - upper) * fy;
+			if (v <= 0) continue;
+			pixels[offset + px] = colors[Math.min(top, (v * factor + 0.5) | 0)];
+		}
+	}
+	return out;
+}
+
+/**
+ * Render a frame to RGBA pixels
+ */
+export function renderKdeFrame(
+	frame: KdeFrame,
+	lut: Uint8ClampedArray,
+	out?: Uint8ClampedArray
+): Uint8ClampedArray {
+	const grid = densityGrid(frame.points, frame.width, frame.height, frame.bandwidth);
+	return rasterizeDensity(grid, lut, frame.width, frame.height, frame.maxDensity, out);
+}
+
+/**
+ * Upsample up to three density grids to RGBA pixels, each into its own colour
+ * channel. Opacity follows the strongest channel, as heatmapLut does for one.
+ */
+export function rasterizeComposite(
+	grids: KdeGrid[],
+	maxDensities: (number | null)[],
+	width: number,
+	height: number,
+	out: Uint8ClampedArray = new Uint8ClampedArray(width * height * 4)
+): Uint8ClampedArray {
+	out.fill(0);
+	const channels = grids.slice(0, 3).map((grid, c) => ({
+		grid,
+		factor: 1 / ((maxDensities[c] ?? grid.max) || 1),
+		xs: axisSamples(width, grid, grid.cols),
+		ys: axisSamples(height, grid, grid.rows)
+	}));
+	const levels = [0, 0, 0];
+
+	for (let py = 0; py < height; py++) {
+		for (let px = 0; px < width; px++) {
+			let strongest = 0;
+			channels.forEach(({ grid, factor, xs, ys }, c) => {
+				const { values, cols } = grid;
+				const at = ys.index[py] * cols + xs.index[px];
+				const fx = xs.fraction[px];
+				const upper = values[at] + (values[at + 1] - values[at]) * fx;
+				const lower = values[at + cols] + (values[at + cols + 1] - values[at + cols]) * fx;
+				const t = Math.min(1, Math.max(0, (upper + (lower - upper) * ys.fraction[py]) * factor));
+				levels[c] = t;
+				if (t > strongest) strongest = t;
+			});
+			if (strongest < 0.01) continue;
+			const at = (py * width + px) * 4;
+			for (let c = 0; c < 3; c++) out[at + c] = (levels[c] / strongest) * 255;
+			out[at + 3] = Math.min(0.85, Math.pow(strongest, 0.7) * 0.9) * 255;
+		}
+	}
+	return out;
+}
+
+/**
+ * Render a composite frame to RGBA pixels
+ */
+export function renderCompositeFrame(
+	frame: KdeCompositeFrame,
+	out?: Uint8ClampedArray
+): Uint8ClampedArray {
+	const grids = frame.channels.map((channel) =>
+		densityGrid(channel.points, frame.width, frame.height, frame.bandwidth)
+	);
+	return rasterizeComposite(
+		grids,
+		frame.channels.map((channel) => channel.maxDensity),
+		frame.width,
+		frame.height,
+		out
+	);
+}
+
+/**
+ * Render a single-species frame through its colour table, or a composite
+ * frame (which has none)
+ */
+export function renderRasterFrame(
+	frame: KdeFrame | KdeCompositeFrame,
+	lut: Uint8ClampedArray | null,
+	out?: Uint8ClampedArray
+): Uint8ClampedArray {
+	return 'channels' in frame ? renderCompositeFrame(frame, out) : renderKdeFrame(frame, lut!, out);
+}
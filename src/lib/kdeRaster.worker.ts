@@ -0,0 +1,54 @@
+/// <reference lib="webworker" />
+
+/**
+ * KDE Raster Worker - Renders density frames off the main thread
+ *
+ * Receives a KdeRasterRequest and replies with a KdeRasterResponse: an
+ * ImageBitmap drawn on an OffscreenCanvas, or the raw pixels where
+ * OffscreenCanvas is unavailable.
+ */
+
+import { renderRasterFrame } from './kdeRaster';
+import type { KdeRasterRequest, KdeRasterResponse } from './kdeRasterService';
+
+const worker = self as unknown as DedicatedWorkerGlobalScope;
+
+let canvas: OffscreenCanvas | null = null;
+let buffer: Uint8ClampedArray<ArrayBuffer> | null = null;
+
+function drawBitmap(pixels: Uint8ClampedArray<ArrayBuffer>, width: number, height: number) {
+	if (typeof OffscreenCanvas === 'undefined') return null;
+	canvas ??= new OffscreenCanvas(width, height);
+	if (canvas.width !== width || canvas.height !== height) {
+		canvas.width = width;
+		canvas.height = height;
+	}
+	const ctx = canvas.getContext('2d');
+	if (!ctx) return null;
+	ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+	return canvas.transferToImageBitmap();
+}
+
+worker.onmessage = (event: MessageEvent<KdeRasterRequest>) => {
+	const { id, frame, lut } = event.data;
+	try {
+		const size = frame.width * frame.height * 4;
+		if (buffer?.length !== size) buffer = new Uint8ClampedArray(size);
+		renderRasterFrame(frame, lut, buffer);
+		const bitmap = drawBitmap(buffer, frame.width, frame.height);
+		if (bitmap) {
+			worker.postMessage({ id, bitmap } satisfies KdeRasterResponse, [bitmap]);
+		} else {
+			// No OffscreenCanvas: hand the pixels over and start a fresh buffer next time
+			const pixels = buffer;
+			buffer = null;
+			worker.postMessage({ id, pixels } satisfies KdeRasterResponse, [pixels.buffer]);
+		}
+	} catch (err) {
+		const response: KdeRasterResponse = {
+			id,
+			error: err instanceof Error ? err.message : String(err)
+		};
+		worker.postMessage(response);
+	}
+};
@@ -0,0 +1,155 @@
+/**
+ * KDE Raster Service - Background rendering of density frames
+ *
+ * One long-lived worker renders frames as ImageBitmaps that the map draws
+ * onto its own canvas. During playback frames are requested faster than they
+ * render, so only the newest waiting frame is kept: a frame replaced before it
+ * starts resolves to null. Without module workers frames render on the main
+ * thread between tasks.
+ */
+
+import { renderRasterFrame, type KdeCompositeFrame, type KdeFrame } from './kdeRaster';
+
+/**
+ * Worker request: one frame and the colour table to draw it with, or a
+ * composite frame (which has no table)
+ */
+export interface KdeRasterRequest {
+	id: number;
+	frame: KdeFrame | KdeCompositeFrame;
+	lut: Uint8ClampedArray | null;
+}
+
+/** Worker reply: a bitmap, or pixels where the worker has no OffscreenCanvas */
+export interface KdeRasterResponse {
+	id: number;
+	bitmap?: ImageBitmap;
+	pixels?: Uint8ClampedArray<ArrayBuffer>;
+	error?: string;
+}
+
+export interface KdeRenderer {
+	/** Render a frame. Resolves to null if a newer frame replaced it or the renderer was disposed. */
+	render(frame: KdeFrame, lut: Uint8ClampedArray): Promise<ImageBitmap | null>;
+	/** Render a composite frame, replacing any waiting frame the same way */
+	renderComposite(frame: KdeCompositeFrame): Promise<ImageBitmap | null>;
+	/** Stop the worker and drop any waiting frame */
+	dispose(): void;
+}
+
+interface RenderJob {
+	request: KdeRasterRequest;
+	resolve: (bitmap: ImageBitmap | null) => void;
+	reject: (err: Error) => void;
+}
+
+function createWorker(): Worker | null {
+	if (typeof Worker === 'undefined') return null;
+	try {
+		return new Worker(new URL('./kdeRaster.worker.ts', import.meta.url), { type: 'module' });
+	} catch (err) {
+		console.warn('KDE worker unavailable, rendering on the main thread:', err);
+		return null;
+	}
+}
+
+async function toBitmap(
+	pixels: Uint8ClampedArray<ArrayBuffer>,
+	width: number,
+	height: number
+): Promise<ImageBitmap | null> {
+	if (typeof createImageBitmap === 'undefined') return null;
+	return createImageBitmap(new ImageData(pixels, width, height));
+}
+
+/**
+ * Start a renderer. Call dispose() when the map is destroyed.
+ */
+export function createKdeRenderer(): KdeRenderer {
+	let worker = createWorker();
+	let running: RenderJob | null = null;
+	let waiting: RenderJob | null = null;
+	let nextId = 0;
+	let disposed = false;
+
+	function finish(job: RenderJob, result: Promise<ImageBitmap | null>) {
+		result.then(job.resolve, job.reject).finally(() => {
+			if (running !== job) return;
+			running = null;
+			next();
+		});
+	}
+
+	function renderOnMainThread(job: RenderJob) {
+		setTimeout(() => {
+			if (disposed) return job.resolve(null);
+			const { frame, lut } = job.request;
+			try {
+				const pixels = renderRasterFrame(frame, lut) as Uint8ClampedArray<ArrayBuffer>;
+				finish(job, toBitmap(pixels, frame.width, frame.height));
+			} catch (err) {
+				finish(job, Promise.reject(err));
+			}
+		}, 0);
+	}
+
+	function next() {
+		if (disposed || running || !waiting) return;
+		running = waiting;
+		waiting = null;
+		if (worker) {
+			worker.postMessage(running.request);
+		} else {
+			renderOnMainThread(running);
+		}
+	}
+
+	if (worker) {
+		worker.onmessage = (event: MessageEvent<KdeRasterResponse>) => {
+			const job = running;
+			const { id, bitmap, pixels, error } = event.data;
+			if (!job || job.request.id !== id) {
+				bitmap?.close();
+				return;
+			}
+			const { width, height } = job.request.frame;
+			if (error) {
+				finish(job, Promise.reject(new Error(error)));
+			} else {
+				finish(job, bitmap ? Promise.resolve(bitmap) : toBitmap(pixels!, width, height));
+			}
+		};
+		worker.onerror = (event) => {
+			// Module workers failed to start; carry on without one
+			console.warn('KDE worker failed, rendering on the main thread:', event.message);
+			event.preventDefault();
+			worker?.terminate();
+			worker = null;
+			if (running) renderOnMainThread(running);
+		};
+	}
+
+	function enqueue(frame: KdeFrame | KdeCompositeFrame, lut: Uint8ClampedArray | null) {
+		if (disposed) return Promise.resolve(null);
+		waiting?.resolve(null);
+		return new Promise<ImageBitmap | null>((resolve, reject) => {
+			waiting = { request: { id: nextId++, frame, lut }, resolve, reject };
+			next();
+		});
+	}
+
+	return {
+		render: (frame, lut) => enqueue(frame, lut),
+		renderComposite: (frame) => enqueue(frame, null),
+		dispose() {
+			if (disposed) return;
+			disposed = true;
+			worker?.terminate();
+			worker = null;
+			running?.resolve(null);
+			waiting?.resolve(null);
+			running = null;
+			waiting = null;
+		}
+	};
+}
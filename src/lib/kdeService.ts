@@ -6,6 +6,10 @@
  */
 
 import type { Species } from './types';
+import { fetchNdviData } from './ndviService';
+import { clearResourceCache } from './resourceLoader';
+import { createColorLut, densityGrid, rasterizeDensity, type KdePoint } from './kdeRaster';
+import { DEFAULT_BINNING, aggregateRange, temporalBins } from './temporalBinning';
 
 /**
  * Logger position with coordinates
@@ -38,68 +42,25 @@ export interface MapBounds {
 	maxLon: number;
 }
 
-/**
- * Logger NDVI data structure (from ndviService)
- */
-interface LoggerNdvi {
-	latitude: number;
-	longitude: number;
-	timeseries: {
-		dates: string[];
-		flights: number[];
-		ndvi_mean: number[];
-		ndvi_std: number[];
-		ndvi_min: number[];
-		ndvi_max: number[];
-	};
-}
-
-interface NdviData {
-	metadata: {
-		n_loggers: number;
-		n_records: number;
-		generated: string;
-	};
-	loggers: Record<string, LoggerNdvi>;
-}
-
-// Cache for logger positions
-let loggerPositionsCache: Map<string, LoggerPosition> | null = null;
-
 /**
  * Fetch logger positions from NDVI data file
  */
-export async function fetchLoggerPositions(): Promise<Map<string, LoggerPosition>> {
-	if (loggerPositionsCache) {
-		return loggerPositionsCache;
-	}
-
-	try {
-		const response = await fetch('/detections/logger_ndvi_timeseries_2025.json', {
-			signal: AbortSignal.timeout(15000)
+export async function fetchLoggerPositions(
+	url: string = '/detections/logger_ndvi_timeseries_2025.json',
+	signal?: AbortSignal
+): Promise<Map<string, LoggerPosition>> {
+	const data = await fetchNdviData(url, signal);
+	const positions = new Map<string, LoggerPosition>();
+
+	for (const [name, logger] of Object.entries(data.loggers)) {
+		positions.set(name, {
+			name,
+			latitude: logger.latitude,
+			longitude: logger.longitude
 		});
-
-		if (!response.ok) {
-			throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-		}
-
-		const data: NdviData = await response.json();
-		const positions = new Map<string, LoggerPosition>();
-
-		for (const [name, logger] of Object.entries(data.loggers)) {
-			positions.set(name, {
-				name,
-				latitude: logger.latitude,
-				longitude: logger.longitude
-			});
-		}
-
-		loggerPositionsCache = positions;
-		return positions;
-	} catch (err) {
-		console.error('Failed to fetch logger positions:', err);
-		throw err;
 	}
+
+	return positions;
 }
 
 /**
@@ -126,18 +87,6 @@ export function getMapBounds(loggerPositions: Map<string, LoggerPosition>, paddi
 	};
 }
 
-/**
- * Get the start of the week (Monday) for a given date
- */
-function getWeekStart(date: Date): Date {
-	const d = new Date(date);
-	const day = d.getUTCDay();
-	const diff = d.getUTCDate() - day + (day === 0 ? -6 : 1);
-	d.setUTCDate(diff);
-	d.setUTCHours(0, 0, 0, 0);
-	return d;
-}
-
 /**
  * Format week label
  */
@@ -149,55 +98,42 @@ function formatWeekLabel(weekStart: Date): string {
 }
 
 /**
- * Aggregate species detections by week and logger
+ * Aggregate species detections by ISO week and logger
  */
 export function aggregateByWeek(
 	species: Species,
 	loggerPositions: Map<string, LoggerPosition>
 ): WeeklyDetectionData[] {
-	const weeklyMap = new Map<string, WeeklyDetectionData>();
-	const dates = species.timeSeries.dates;
+	const bins = temporalBins(species.timeSeries.dates, { ...DEFAULT_BINNING, resolution: 'week' });
 	const sites = species.timeSeries.sites;
 
-	for (let i = 0; i < dates.length; i++) {
-		const date = new Date(dates[i]);
-		const weekStart = getWeekStart(date);
-		const weekKey = weekStart.toISOString().slice(0, 10);
-
-		if (!weeklyMap.has(weekKey)) {
-			const weekEnd = new Date(weekStart);
-			weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
-			weeklyMap.set(weekKey, {
-				weekStart,
-				weekEnd,
-				weekLabel: formatWeekLabel(weekStart),
-				loggers: new Map(),
-				totalDetections: 0,
-				maxLoggerDetections: 0
-			});
-		}
-
-		const weekData = weeklyMap.get(weekKey)!;
+	return bins.map((bin) => {
+		const weekStart = new Date(bin.start);
+		const weekData: WeeklyDetectionData = {
+			weekStart,
+			weekEnd: new Date(bin.end),
+			weekLabel: formatWeekLabel(weekStart),
+			loggers: new Map(),
+			totalDetections: 0,
+			maxLoggerDetections: 0
+		};
 
 		for (const [loggerName, values] of Object.entries(sites)) {
 			if (!loggerPositions.has(loggerName)) continue;
 
-			const value = values[i] ?? 0;
-			const current = weekData.loggers.get(loggerName) ?? 0;
-			const newValue = current + value;
-			weekData.loggers.set(loggerName, newValue);
+			const value = aggregateRange(values, bin.from, bin.to, 'sum');
+			weekData.loggers.set(loggerName, value);
 			weekData.totalDetections += value;
-			weekData.maxLoggerDetections = Math.max(weekData.maxLoggerDetections, newValue);
+			weekData.maxLoggerDetections = Math.max(weekData.maxLoggerDetections, value);
 		}
-	}
 
-	return Array.from(weeklyMap.values()).sort(
-		(a, b) => a.weekStart.getTime() - b.weekStart.getTime()
-	);
+		return weekData;
+	});
 }
 
 /**
- * Render KDE heatmap to canvas using Gaussian kernel
+ * Render KDE heatmap to canvas using Gaussian kernel. The colour function is
+ * sampled once into a lookup table; see kdeRaster for the density grid.
  */
 export function renderKDEToCanvas(
 	ctx: CanvasRenderingContext2D,
@@ -209,12 +145,8 @@ export function renderKDEToCanvas(
 	colorFunc: (value: number) => string,
 	bandwidth: number = 25 // pixels
 ): void {
-	// Create offscreen canvas for density calculation
-	const densityData = new Float32Array(width * height);
-	let maxDensity = 0;
-
 	// Convert logger positions to screen coordinates
-	const loggerScreenPos: { x: number; y: number; weight: number }[] = [];
+	const loggerScreenPos: KdePoint[] = [];
 	
 	for (const [loggerName, detections] of weekData.loggers) {
 		if (detections === 0) continue;
@@ -229,48 +161,19 @@ export function renderKDEToCanvas(
 		loggerScreenPos.push({ x, y, weight });
 	}
 
-	// Calculate density at each pixel using Gaussian kernel
-	const bw2 = bandwidth * bandwidth * 2;
-	
-	for (let py = 0; py < height; py++) {
-		for (let px = 0; px < width; px++) {
-			let density = 0;
-			
-			for (const logger of loggerScreenPos) {
-				const dx = px - logger.x;
-				const dy = py - logger.y;
-				const distSq = dx * dx + dy * dy;
-				
-				// Gaussian kernel
-				const kernel = Math.exp(-distSq / bw2);
-				density += logger.weight * kernel;
-			}
-			
-			densityData[py * width + px] = density;
-			maxDensity = Math.max(maxDensity, density);
-		}
-	}
+	const grid = densityGrid(loggerScreenPos, width, height, bandwidth);
 
 	// Normalize and render to canvas
-	if (maxDensity > 0) {
-		const imageData = ctx.createImageData(width, height);
-		const data = imageData.data;
-
-		for (let i = 0; i < densityData.length; i++) {
-			const normalizedDensity = densityData[i] / maxDensity;
-			const color = colorFunc(normalizedDensity);
-			
-			// Parse color (expects rgba or rgb format)
-			const match = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
-			if (match) {
-				const idx = i * 4;
-				data[idx] = parseInt(match[1]);
-				data[idx + 1] = parseInt(match[2]);
-				data[idx + 2] = parseInt(match[3]);
-				data[idx + 3] = Math.round((parseFloat(match[4] ?? '1') * 255));
-			}
-		}
+	if (grid.max > 0) {
+		// Parse color (expects rgba or rgb format)
+		const lut = createColorLut((value) => {
+			const match = colorFunc(value).match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
+			if (!match) return [0, 0, 0, 0];
+			return [parseInt(match[1]), parseInt(match[2]), parseInt(match[3]), parseFloat(match[4] ?? '1')];
+		});
 
+		const imageData = ctx.createImageData(width, height);
+		rasterizeDensity(grid, lut, width, height, null, imageData.data);
 		ctx.putImageData(imageData, 0, 0);
 	}
 }
@@ -311,5 +214,5 @@ export function createHeatmapColorFunc(baseColor: string): (value: number) => st
  * Clear caches
  */
 export function clearKDECache(): void {
-	loggerPositionsCache = null;
+	clearResourceCache('ndvi');
 }
@@ -0,0 +1,153 @@
+/**
+ * Local Import - Recognise data files dropped in from the user's disk
+ *
+ * Files are identified by content where possible (packed magic bytes, the
+ * keys at the top of a JSON file) and by extension otherwise. Logger CSVs are
+ * converted to the NDVI JSON structure so they follow the same validation and
+ * processing path as the deployed files.
+ */
+
+import { csvParse, type DSVRowString } from 'd3';
+import type { NdviData, LoggerNdvi } from './ndviService';
+import { PACKED_MAGIC } from './speciesBinary';
+
+export type LocalFileRole = 'species' | 'loggers' | 'shp' | 'dbf' | 'prj' | 'geojson';
+
+export interface LocalFile {
+	file: File;
+	role: LocalFileRole | null; // null if the file was not recognised
+}
+
+export const LOCAL_FILE_ACCEPT = '.json,.geojson,.bin,.csv,.shp,.dbf,.prj';
+
+export const LOCAL_ROLE_LABELS: Record<LocalFileRole, string> = {
+	species: 'Detections',
+	loggers: 'Loggers / NDVI',
+	shp: 'Perimeter shapes',
+	dbf: 'Perimeter attributes',
+	prj: 'Perimeter projection',
+	geojson: 'Perimeter (GeoJSON)'
+};
+
+// Enough of a JSON file to see its metadata block
+const SNIFF_BYTES = 4096;
+
+function extension(name: string): string {
+	const dot = name.lastIndexOf('.');
+	return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Work out what a dropped file contains
+ */
+export async function identifyLocalFile(file: File): Promise<LocalFile> {
+	const ext = extension(file.name);
+	if (ext === 'shp' || ext === 'dbf' || ext === 'prj') return { file, role: ext };
+	if (ext === 'csv') return { file, role: 'loggers' };
+	if (ext === 'geojson') return { file, role: 'geojson' };
+
+	const head = await file.slice(0, SNIFF_BYTES).text();
+	if (head.startsWith(PACKED_MAGIC)) return { file, role: 'species' };
+	if (ext === 'json') {
+		if (/"(n_loggers|loggers)"\s*:/.test(head)) return { file, role: 'loggers' };
+		if (/"(nSpecies|species)"\s*:/.test(head)) return { file, role: 'species' };
+		if (/"type"\s*:\s*"(FeatureCollection|Feature)"/.test(head)) return { file, role: 'geojson' };
+	}
+	return { file, role: null };
+}
+
+// ============================================================================
+// Logger CSV
+// ============================================================================
+
+// Accepted header names for each field, compared case-insensitively
+const CSV_COLUMNS = {
+	name: ['logger', 'name', 'site', 'logger_id'],
+	latitude: ['latitude', 'lat'],
+	longitude: ['longitude', 'lon', 'lng'],
+	date: ['date'],
+	ndvi: ['ndvi_mean', 'ndvi'],
+	std: ['ndvi_std'],
+	min: ['ndvi_min'],
+	max: ['ndvi_max'],
+	flights: ['flights']
+};
+
+function findColumn(headers: string[], candidates: string[]): string | null {
+	return headers.find((h) => candidates.includes(h.trim().toLowerCase())) ?? null;
+}
+
+/**
+ * Convert a logger CSV to the NDVI file structure.
+ *
+ * One row per logger (positions only) or one row per logger and flight date
+ * (long format with an ndvi column). Values are not checked here; the result
+ * goes through validateNdviData like a JSON file.
+ */
+export function ndviFromCsv(text: string, source: string): NdviData {
+	const rows = csvParse(text);
+	const headers = rows.columns;
+	const col = Object.fromEntries(
+		Object.entries(CSV_COLUMNS).map(([key, names]) => [key, findColumn(headers, names)])
+	) as Record<keyof typeof CSV_COLUMNS, string | null>;
+
+	const missing = (['name', 'latitude', 'longitude'] as const).filter((key) => !col[key]);
+	if (missing.length > 0) {
+		throw new Error(
+			`${source} needs ${missing.join(', ')} columns (found: ${headers.join(', ') || 'none'})`
+		);
+	}
+	const hasSeries = col.date !== null && col.ndvi !== null;
+
+	const value = (row: DSVRowString, key: string | null, fallback: number) => {
+		const cell = key ? row[key]?.trim() : undefined;
+		return cell ? Number(cell) : fallback;
+	};
+
+	// Blank coordinates stay NaN (not 0, which is a valid position) so
+	// validation reports them; a later row of the same logger may fill them in
+	const grouped = new Map<string, { latitude: number; longitude: number; rows: DSVRowString[] }>();
+	for (const row of rows) {
+		const name = row[col.name!]?.trim();
+		if (!name) continue;
+		let entry = grouped.get(name);
+		if (!entry) {
+			entry = { latitude: NaN, longitude: NaN, rows: [] };
+			grouped.set(name, entry);
+		}
+		if (Number.isNaN(entry.latitude)) entry.latitude = value(row, col.latitude, NaN);
+		if (Number.isNaN(entry.longitude)) entry.longitude = value(row, col.longitude, NaN);
+		if (hasSeries) entry.rows.push(row);
+	}
+
+	const loggers: Record<string, LoggerNdvi> = {};
+	let records = 0;
+	for (const [name, entry] of grouped) {
+		const sorted = [...entry.rows].sort((a, b) =>
+			(a[col.date!] ?? '').localeCompare(b[col.date!] ?? '')
+		);
+		const ndvi = sorted.map((row) => value(row, col.ndvi, NaN));
+		loggers[name] = {
+			latitude: entry.latitude,
+			longitude: entry.longitude,
+			timeseries: {
+				dates: sorted.map((row) => row[col.date!] ?? ''),
+				flights: sorted.map((row) => value(row, col.flights, 1)),
+				ndvi_mean: ndvi,
+				ndvi_std: sorted.map((row) => value(row, col.std, 0)),
+				ndvi_min: sorted.map((row, i) => value(row, col.min, ndvi[i])),
+				ndvi_max: sorted.map((row, i) => value(row, col.max, ndvi[i]))
+			}
+		};
+		records += sorted.length;
+	}
+
+	return {
+		metadata: {
+			n_loggers: grouped.size,
+			n_records: records,
+			generated: new Date().toISOString()
+		},
+		loggers
+	};
+}
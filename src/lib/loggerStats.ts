@@ -0,0 +1,92 @@
+/**
+ * Logger Stats - One logger's detections compared with the rest of the wood
+ *
+ * Pure functions behind the logger inspector: how a logger ranks among the
+ * others for a species, which species it hears most, and which loggers are
+ * its nearest neighbours on the ground.
+ */
+
+import type { Series, Species } from './types';
+
+/** Where a logger stands among all loggers for one species */
+export interface LoggerRank {
+	/** 1 for the logger with the most detections */
+	rank: number;
+	/** Loggers with data for the species */
+	of: number;
+	total: number;
+	/** Season total of the average logger */
+	woodMean: number;
+}
+
+/** A species' season total at one logger, against its average logger */
+export interface LoggerSpeciesTotal {
+	name: string;
+	total: number;
+	/** Logger total over the wood-wide mean; above 1 is more than the average logger */
+	ratio: number;
+}
+
+export interface LoggerNeighbour {
+	name: string;
+	/** Metres in British National Grid */
+	distance: number;
+}
+
+function sum(series: Series): number {
+	let total = 0;
+	for (let i = 0; i < series.length; i++) total += series[i] || 0;
+	return total;
+}
+
+/**
+ * Rank a logger by its season total for a species, or null if the logger has
+ * no data for it
+ */
+export function loggerRank(species: Species, logger: string): LoggerRank | null {
+	const sites = species.timeSeries.sites;
+	if (!sites[logger]) return null;
+	const totals = Object.values(sites).map(sum);
+	const total = sum(sites[logger]);
+	return {
+		rank: totals.filter((t) => t > total).length + 1,
+		of: totals.length,
+		total,
+		woodMean: totals.reduce((a, b) => a + b, 0) / (totals.length || 1)
+	};
+}
+
+/**
+ * Every species heard at a logger, most detections first
+ */
+export function loggerSpeciesTotals(species: Species[], logger: string): LoggerSpeciesTotal[] {
+	const totals: LoggerSpeciesTotal[] = [];
+	for (const sp of species) {
+		const rank = loggerRank(sp, logger);
+		if (!rank || rank.total <= 0) continue;
+		totals.push({
+			name: sp.name,
+			total: rank.total,
+			ratio: rank.woodMean > 0 ? rank.total / rank.woodMean : 0
+		});
+	}
+	return totals.sort((a, b) => b.total - a.total);
+}
+
+/**
+ * The `count` loggers closest to one logger, nearest first
+ */
+export function nearestLoggers(
+	grid: Map<string, [number, number]>,
+	logger: string,
+	count: number
+): LoggerNeighbour[] {
+	const origin = grid.get(logger);
+	if (!origin) return [];
+	const neighbours: LoggerNeighbour[] = [];
+	for (const [name, [x, y]] of grid) {
+		if (name === logger) continue;
+		neighbours.push({ name, distance: Math.hypot(x - origin[0], y - origin[1]) });
+	}
+	return neighbours.sort((a, b) => a.distance - b.distance).slice(0, count);
+}
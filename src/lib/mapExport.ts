@@ -0,0 +1,217 @@
+/**
+ * Map Export - Animation frames to PNG sequences, GIFs and WebM videos
+ *
+ * Frames are drawn one at a time onto an offscreen canvas by a callback that
+ * reuses the map's own drawing, then encoded as they come:
+ * - PNG: a zip of numbered frames, for editing or video tools
+ * - GIF: quantised per frame, plays anywhere
+ * - WebM: recorded from the canvas with MediaRecorder where the browser has it
+ */
+
+import { createGifWriter } from './gifEncoder';
+import { createZip, type ZipEntry } from './zipWriter';
+
+export type ExportFormat = 'png' | 'gif' | 'webm';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+	png: { label: 'PNG frames (zip)', extension: 'zip' },
+	gif: { label: 'Animated GIF', extension: 'gif' },
+	webm: { label: 'WebM video', extension: 'webm' }
+};
+
+/** Output widths offered; the height follows the map's aspect ratio */
+export const EXPORT_WIDTHS = [640, 1280, 1920];
+
+export interface ExportOverlays {
+	date: boolean;
+	species: boolean;
+	stats: boolean;
+}
+
+export interface ExportSettings {
+	/** First and last day, as indexes into the species' dates */
+	start: number;
+	end: number;
+	/** Frames per day; in-between frames interpolate the counts */
+	framesPerDay: number;
+	/** Output width in pixels */
+	width: number;
+	format: ExportFormat;
+	/** Playback rate of the GIF or video */
+	fps: number;
+	overlays: ExportOverlays;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: Omit<ExportSettings, 'start' | 'end'> = {
+	framesPerDay: 2,
+	width: 1280,
+	format: 'gif',
+	fps: 12,
+	overlays: { date: true, species: true, stats: false }
+};
+
+/**
+ * Draw the map at a (fractional) day index. The context is already scaled to
+ * the map's on-screen size and cleared to the background.
+ */
+export type FrameRenderer = (ctx: CanvasRenderingContext2D, position: number) => Promise<void>;
+
+export interface ExportOptions {
+	onProgress?: (frame: number, frames: number) => void;
+	signal?: AbortSignal;
+}
+
+/** Background under transparent parts of the map (GIF and WebM have no alpha) */
+const BACKGROUND = '#1a1b1e';
+
+/** Frame positions from start to end inclusive */
+export function framePositions(settings: ExportSettings): number[] {
+	const steps = Math.max(0, Math.round((settings.end - settings.start) * settings.framesPerDay));
+	return Array.from({ length: steps + 1 }, (_, i) => settings.start + i / settings.framesPerDay);
+}
+
+/** Output size for a map of the given size; even, as video encoders require */
+export function exportSize(
+	width: number,
+	mapSize: { width: number; height: number }
+): { width: number; height: number } {
+	const even = (n: number) => Math.max(2, 2 * Math.round(n / 2));
+	return { width: even(width), height: even((width * mapSize.height) / mapSize.width) };
+}
+
+/** MediaRecorder type for WebM, or null if the browser can't record one */
+export function webmMimeType(): string | null {
+	if (typeof MediaRecorder === 'undefined') return null;
+	const types = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+	return types.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/** Let the page repaint (and the progress bar move) between heavy frames */
+function nextTask(ms: number = 0): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array<ArrayBuffer>> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob((blob) => {
+			if (!blob) reject(new Error('Could not encode frame'));
+			else blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+		}, 'image/png');
+	});
+}
+
+/**
+ * Render every frame of the animation and encode it in the chosen format.
+ * Rejects with the signal's reason if it is aborted.
+ */
+export async function exportAnimation(
+	settings: ExportSettings,
+	mapSize: { width: number; height: number },
+	renderFrame: FrameRenderer,
+	options: ExportOptions = {}
+): Promise<Blob> {
+	const { onProgress, signal } = options;
+	const positions = framePositions(settings);
+	const size = exportSize(settings.width, mapSize);
+	const canvas = document.createElement('canvas');
+	canvas.width = size.width;
+	canvas.height = size.height;
+	const ctx = canvas.getContext('2d', { willReadFrequently: settings.format === 'gif' });
+	if (!ctx) throw new Error('Canvas is not available');
+
+	const draw = async (position: number) => {
+		ctx.setTransform(1, 0, 0, 1, 0, 0);
+		ctx.fillStyle = BACKGROUND;
+		ctx.fillRect(0, 0, size.width, size.height);
+		ctx.setTransform(size.width / mapSize.width, 0, 0, size.width / mapSize.width, 0, 0);
+		await renderFrame(ctx, position);
+	};
+
+	if (settings.format === 'png') {
+		const entries: ZipEntry[] = [];
+		const digits = String(positions.length).length;
+		for (let i = 0; i < positions.length; i++) {
+			signal?.throwIfAborted();
+			await draw(positions[i]);
+			entries.push({
+				name: `frame_${String(i + 1).padStart(digits, '0')}.png`,
+				data: await canvasToPng(canvas)
+			});
+			onProgress?.(i + 1, positions.length);
+		}
+		return createZip(entries);
+	}
+
+	if (settings.format === 'gif') {
+		const gif = createGifWriter(size.width, size.height);
+		for (let i = 0; i < positions.length; i++) {
+			signal?.throwIfAborted();
+			await draw(positions[i]);
+			gif.addFrame(ctx.getImageData(0, 0, size.width, size.height).data, 1000 / settings.fps);
+			onProgress?.(i + 1, positions.length);
+			await nextTask();
+		}
+		return gif.finish();
+	}
+
+	return recordWebm(canvas, positions, draw, settings.fps, options);
+}
+
+/**
+ * MediaRecorder timestamps frames by the clock, so frames are pushed in real
+ * time: each is held for at least 1/fps, longer if it was slow to draw.
+ */
+async function recordWebm(
+	canvas: HTMLCanvasElement,
+	positions: number[],
+	draw: (position: number) => Promise<void>,
+	fps: number,
+	{ onProgress, signal }: ExportOptions
+): Promise<Blob> {
+	const mimeType = webmMimeType();
+	if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+	const stream = canvas.captureStream(0);
+	const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+	const recorder = new MediaRecorder(stream, {
+		mimeType,
+		videoBitsPerSecond: canvas.width * canvas.height * fps * 0.2
+	});
+	const chunks: Blob[] = [];
+	recorder.ondataavailable = (e) => {
+		if (e.data.size > 0) chunks.push(e.data);
+	};
+	const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+	const interval = 1000 / fps;
+	recorder.start();
+	try {
+		for (let i = 0; i < positions.length; i++) {
+			signal?.throwIfAborted();
+			const started = performance.now();
+			await draw(positions[i]);
+			track.requestFrame();
+			onProgress?.(i + 1, positions.length);
+			await nextTask(Math.max(0, interval - (performance.now() - started)));
+		}
+	} finally {
+		recorder.stop();
+		await stopped;
+		stream.getTracks().forEach((t) => t.stop());
+	}
+	return new Blob(chunks, { type: 'video/webm' });
+}
+
+/**
+ * Save a blob through a temporary link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,157 @@
+/**
+ * Map Stats - Per-species summary statistics for the density map side panel
+ *
+ * Pure functions with no DOM access, so they run in the map stats worker as
+ * well as on the main thread.
+ */
+
+import type { Series, Species } from './types';
+import { computeSpatialStats, type SpatialStats } from './spatialStats';
+import { computeActivityRange, type ActivityRange } from './activityRange';
+
+/** Pre-computed stats for the density map visualization */
+export interface SpeciesMapStats {
+	globalMax: number; // Maximum detection count across all sites and days
+	dailyTotals: number[]; // Sum of detections across all sites for each day
+	maxDailyTotal: number; // Maximum of dailyTotals
+	// Enhanced stats for side panel
+	dailyTrends: number[]; // -1 to 1 normalized percentage change against the trailing window (7 days when daily)
+	dailyClustering: number[]; // 0-1 Gini coefficient measuring concentration of detections across sites
+	cumulativeTotal: number[]; // Running cumulative detections
+	activeSiteCounts: number[]; // Number of sites with detections per day
+	totalActiveSites: number; // Total unique sites with any detections
+	spatial: SpatialStats | null; // Moran's I and Gi* hotspots; null without logger positions
+	activity: ActivityRange | null; // Centroid, dispersion ellipse and range areas; null without logger positions
+}
+
+/** The part of a species the stats are computed from (sent to the worker) */
+export interface MapStatsInput {
+	name: string;
+	numDays: number;
+	sites: Record<string, Series>;
+	/** Logger positions in British National Grid metres, for the spatial stats and activity range */
+	positions?: Record<string, [number, number]>;
+	/** Steps in the trailing window each trend compares against; 7 by default */
+	trendWindow?: number;
+}
+
+export function mapStatsInput(
+	species: Species,
+	positions?: Record<string, [number, number]>,
+	trendWindow?: number
+): MapStatsInput {
+	return {
+		name: species.name,
+		numDays: species.timeSeries.dates.length,
+		sites: species.timeSeries.sites,
+		positions,
+		trendWindow
+	};
+}
+
+/**
+ * Compute the map stats for one species
+ */
+export function computeMapStats({
+	numDays,
+	sites,
+	positions,
+	trendWindow = 7
+}: MapStatsInput): SpeciesMapStats {
+	const siteNames = Object.keys(sites);
+	const numSites = siteNames.length;
+
+	let globalMax = 0;
+	const dailyTotals: number[] = new Array(numDays).fill(0);
+	const activeSiteCounts: number[] = new Array(numDays).fill(0);
+	// Site values per day, day-major, for the Gini coefficient
+	const dailySiteValues = new Float64Array(numDays * numSites);
+
+	// Track which sites ever had detections
+	let sitesWithDetections = 0;
+
+	// Single pass through all data
+	siteNames.forEach((site, s) => {
+		const counts = sites[site];
+		let detected = false;
+		for (let i = 0; i < counts.length && i < numDays; i++) {
+			const count = counts[i] || 0;
+			if (count > globalMax) globalMax = count;
+			dailyTotals[i] += count;
+			dailySiteValues[i * numSites + s] = count;
+			if (count > 0) {
+				activeSiteCounts[i]++;
+				detected = true;
+			}
+		}
+		if (detected) sitesWithDetections++;
+	});
+
+	// Compute trends (rolling window comparison, 7 days by default) - store percentage change
+	const dailyTrends: number[] = new Array(numDays).fill(0);
+	const windowSize = Math.max(1, trendWindow);
+	for (let i = windowSize; i < numDays; i++) {
+		let windowSum = 0;
+		for (let j = i - windowSize; j < i; j++) windowSum += dailyTotals[j];
+		const prev = windowSum / windowSize;
+		const curr = dailyTotals[i];
+		if (prev > 0) {
+			// Store percentage change, capped at ±100% for display
+			dailyTrends[i] = Math.max(-1, Math.min(1, (curr - prev) / prev));
+		}
+	}
+
+	// Compute concentration using Gini coefficient (higher = more concentrated)
+	// Gini measures inequality in the distribution of detections across sites
+	const dailyClustering: number[] = new Array(numDays).fill(0);
+	for (let i = 0; i < numDays; i++) {
+		const totalDetections = dailyTotals[i];
+		if (totalDetections <= 0) continue;
+
+		// Typed array sort is numeric and ascending, and sorts the view in place
+		const sorted = dailySiteValues.subarray(i * numSites, (i + 1) * numSites).sort();
+		const n = sorted.length;
+
+		// Gini coefficient calculation
+		let numerator = 0;
+		for (let j = 0; j < n; j++) {
+			numerator += (j + 1) * sorted[j];
+		}
+		const gini = (2 * numerator) / (n * totalDetections) - (n + 1) / n;
+
+		// Ensure non-negative (can be slightly negative due to floating point)
+		dailyClustering[i] = Math.max(0, gini);
+	}
+
+	// Cumulative totals
+	const cumulativeTotal: number[] = new Array(numDays).fill(0);
+	let runningSum = 0;
+	for (let i = 0; i < numDays; i++) {
+		runningSum += dailyTotals[i];
+		cumulativeTotal[i] = runningSum;
+	}
+
+	// Spatial stats over the loggers with a known position
+	let spatial: SpatialStats | null = null;
+	let activity: ActivityRange | null = null;
+	const located = positions ? siteNames.filter((site) => positions[site]) : [];
+	if (positions && located.length >= 3) {
+		const locatedCounts = located.map((site) => sites[site]);
+		const locatedPositions = located.map((site) => positions[site]);
+		spatial = computeSpatialStats(located, locatedCounts, locatedPositions, numDays);
+		activity = computeActivityRange(locatedCounts, locatedPositions, numDays);
+	}
+
+	return {
+		globalMax: globalMax || 1,
+		dailyTotals,
+		maxDailyTotal: Math.max(...dailyTotals, 1),
+		dailyTrends,
+		dailyClustering,
+		cumulativeTotal,
+		activeSiteCounts,
+		totalActiveSites: sitesWithDetections,
+		spatial,
+		activity
+	};
+}
@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+
+/**
+ * Map Stats Worker - Computes species map stats off the main thread
+ *
+ * Receives one MapStatsInput per message and replies with a MapStatsResult.
+ * Scheduling is done by mapStatsService.
+ */
+
+import type { MapStatsInput } from './mapStats';
+import { mapStatsResult } from './mapStatsService';
+
+const worker = self as unknown as DedicatedWorkerGlobalScope;
+
+worker.onmessage = (event: MessageEvent<MapStatsInput>) => {
+	worker.postMessage(mapStatsResult(event.data));
+};
@@ -0,0 +1,178 @@
+/**
+ * Map Stats Service - Background computation of species map stats
+ *
+ * A season's stats are computed in a Web Worker, one species per message, so
+ * the cost of adding species never lands on the main thread during loading.
+ * A species the map asks for moves to the front of the queue; the rest fill
+ * in behind it. Where workers are unavailable (SSR, or a browser without
+ * module workers) the same queue runs on the main thread between tasks.
+ */
+
+import type { Series, Species } from './types';
+import {
+	computeMapStats,
+	mapStatsInput,
+	type MapStatsInput,
+	type SpeciesMapStats
+} from './mapStats';
+
+/** Worker reply for one species */
+export interface MapStatsResult {
+	name: string;
+	stats: SpeciesMapStats | null;
+	error?: string;
+}
+
+export interface MapStatsJob {
+	/** Stats computed so far; filled in place as results arrive */
+	readonly stats: Map<string, SpeciesMapStats>;
+	/** Resolves once every species is done; stays pending if the job is cancelled */
+	readonly done: Promise<Map<string, SpeciesMapStats>>;
+	/** Stats for one species, computed next if still queued. Null if unknown or cancelled. */
+	request(name: string): Promise<SpeciesMapStats | null>;
+	/** Stop the job; pending requests resolve to null */
+	cancel(): void;
+}
+
+function createWorker(): Worker | null {
+	if (typeof Worker === 'undefined') return null;
+	try {
+		return new Worker(new URL('./mapStats.worker.ts', import.meta.url), { type: 'module' });
+	} catch (err) {
+		console.warn('Map stats worker unavailable, computing on the main thread:', err);
+		return null;
+	}
+}
+
+/** Compute one species' stats, reporting a failure rather than throwing */
+export function mapStatsResult(input: MapStatsInput): MapStatsResult {
+	try {
+		return { name: input.name, stats: computeMapStats(input) };
+	} catch (err) {
+		return {
+			name: input.name,
+			stats: null,
+			error: err instanceof Error ? err.message : String(err)
+		};
+	}
+}
+
+/**
+ * The input with each series copied into its own buffer. Series decoded from
+ * a packed file are views into the whole download, and structured clone
+ * would copy all of it for every species posted to the worker.
+ */
+function detachedInput(input: MapStatsInput): MapStatsInput {
+	const sites: Record<string, Series> = {};
+	for (const [site, series] of Object.entries(input.sites)) {
+		sites[site] = Array.isArray(series) ? series : series.slice();
+	}
+	return { ...input, sites };
+}
+
+/**
+ * Start computing map stats for every species in the background. `positions`
+ * (British National Grid metres) adds the spatial stats. `onStats` is called
+ * as each species is done. `trendWindow` is in time steps, for binned series.
+ */
+export function startMapStatsJob(
+	species: Species[],
+	positions?: Record<string, [number, number]>,
+	onStats?: (name: string, stats: SpeciesMapStats) => void,
+	trendWindow?: number
+): MapStatsJob {
+	const stats = new Map<string, SpeciesMapStats>();
+	const inputs = new Map<string, MapStatsInput>(
+		species.map((sp) => [sp.name, mapStatsInput(sp, positions, trendWindow)])
+	);
+	const queue = species.map((sp) => sp.name);
+	const waiters = new Map<string, Array<(stats: SpeciesMapStats | null) => void>>();
+	let running: string | null = null;
+	let cancelled = false;
+	let worker = createWorker();
+
+	let resolveDone: (stats: Map<string, SpeciesMapStats>) => void = () => {};
+	const done = new Promise<Map<string, SpeciesMapStats>>((resolve) => (resolveDone = resolve));
+
+	function settle(name: string, result: SpeciesMapStats | null) {
+		if (result) {
+			stats.set(name, result);
+			onStats?.(name, result);
+		}
+		waiters.get(name)?.forEach((resolve) => resolve(result));
+		waiters.delete(name);
+	}
+
+	function finish(result: MapStatsResult) {
+		if (cancelled || result.name !== running) return;
+		running = null;
+		if (result.error) console.warn(`Map stats failed for ${result.name}:`, result.error);
+		settle(result.name, result.stats);
+		next();
+	}
+
+	function next() {
+		if (cancelled || running !== null) return;
+		const name = queue.shift();
+		if (name === undefined) {
+			worker?.terminate();
+			worker = null;
+			resolveDone(stats);
+			return;
+		}
+		running = name;
+		const input = inputs.get(name)!;
+		if (worker) {
+			worker.postMessage(detachedInput(input));
+		} else {
+			// Yield between species so the main thread stays responsive
+			setTimeout(() => finish(mapStatsResult(input)), 0);
+		}
+	}
+
+	if (worker) {
+		worker.onmessage = (event: MessageEvent<MapStatsResult>) => finish(event.data);
+		worker.onerror = (event) => {
+			// Module workers failed to start; carry on without one
+			console.warn('Map stats worker failed, computing on the main thread:', event.message);
+			event.preventDefault();
+			worker?.terminate();
+			worker = null;
+			if (running !== null) queue.unshift(running);
+			running = null;
+			next();
+		};
+	}
+
+	next();
+
+	return {
+		stats,
+		done,
+		request(name) {
+			const ready = stats.get(name);
+			if (ready) return Promise.resolve(ready);
+			if (cancelled || !inputs.has(name)) return Promise.resolve(null);
+			// Already tried and failed
+			if (running !== name && !queue.includes(name)) return Promise.resolve(null);
+
+			const queued = queue.indexOf(name);
+			if (queued > 0) {
+				queue.splice(queued, 1);
+				queue.unshift(name);
+			}
+			return new Promise((resolve) => {
+				if (!waiters.has(name)) waiters.set(name, []);
+				waiters.get(name)!.push(resolve);
+			});
+		},
+		cancel() {
+			if (cancelled) return;
+			cancelled = true;
+			worker?.terminate();
+			worker = null;
+			queue.length = 0;
+			for (const name of [...waiters.keys()]) settle(name, null);
+		}
+	};
+}
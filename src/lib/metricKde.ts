@@ -0,0 +1,208 @@
+/**
+ * Metric KDE - Kernel density of detections in British National Grid metres
+ *
+ * Loggers are weighted by their detections and smoothed with a Gaussian
+ * kernel whose bandwidth (standard deviation) is in metres, so the surface is
+ * the same at any window size. The bandwidth is fixed or chosen from the
+ * data:
+ * - Scott: σ · n^(-1/6), the normal-reference rule for two dimensions
+ * - Silverman: 0.9 · min(σ, IQR / 1.34) · n^(-1/5) per axis, robust to outliers
+ * - Cross-validation: maximises the leave-one-logger-out likelihood
+ * With weights, n is the effective sample size (Σw)² / Σw².
+ */
+
+export type BandwidthMethod = 'fixed' | 'scott' | 'silverman' | 'cv';
+
+export const BANDWIDTH_METHODS: Record<BandwidthMethod, { label: string }> = {
+	fixed: { label: 'Fixed' },
+	scott: { label: 'Scott' },
+	silverman: { label: 'Silverman' },
+	cv: { label: 'Cross-validation' }
+};
+
+export interface BandwidthSettings {
+	method: BandwidthMethod;
+	/** Bandwidth used by the fixed method */
+	metres: number;
+}
+
+export const DEFAULT_BANDWIDTH: BandwidthSettings = { method: 'scott', metres: 75 };
+
+/** A weighted point in British National Grid metres */
+export interface MetricPoint {
+	x: number;
+	y: number;
+	weight: number;
+}
+
+export const SQUARE_METRES_PER_HECTARE = 10000;
+
+/** Automatic bandwidths are kept within this range (metres) */
+const MIN_BANDWIDTH = 5;
+const MAX_BANDWIDTH = 2000;
+
+/** Candidate bandwidths tried by cross-validation */
+const CV_STEPS = 40;
+
+function weightedMean(values: number[], weights: number[], total: number): number {
+	let sum = 0;
+	for (let i = 0; i < values.length; i++) sum += values[i] * weights[i];
+	return sum / total;
+}
+
+function weightedStd(values: number[], weights: number[], total: number): number {
+	const mean = weightedMean(values, weights, total);
+	let sum = 0;
+	for (let i = 0; i < values.length; i++) sum += weights[i] * (values[i] - mean) ** 2;
+	return Math.sqrt(sum / total);
+}
+
+function weightedQuantile(values: number[], weights: number[], p: number): number {
+	const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+	const total = weights.reduce((a, b) => a + b, 0);
+	let cumulative = 0;
+	for (const i of order) {
+		cumulative += weights[i];
+		if (cumulative >= p * total) return values[i];
+	}
+	return values[order[order.length - 1]];
+}
+
+function positive(points: MetricPoint[]): MetricPoint[] {
+	return points.filter((p) => p.weight > 0 && Number.isFinite(p.x) && Number.isFinite(p.y));
+}
+
+/** Kish effective sample size */
+function effectiveCount(weights: number[]): number {
+	const sum = weights.reduce((a, b) => a + b, 0);
+	const squares = weights.reduce((a, b) => a + b * b, 0);
+	return squares > 0 ? (sum * sum) / squares : 0;
+}
+
+function clampBandwidth(h: number): number | null {
+	return Number.isFinite(h) && h > 0 ? Math.min(MAX_BANDWIDTH, Math.max(MIN_BANDWIDTH, h)) : null;
+}
+
+/**
+ * Scott's rule, or null with fewer than two distinct weighted points
+ */
+export function scottBandwidth(points: MetricPoint[]): number | null {
+	const used = positive(points);
+	if (used.length < 2) return null;
+	const weights = used.map((p) => p.weight);
+	const total = weights.reduce((a, b) => a + b, 0);
+	const sx = weightedStd(
+		used.map((p) => p.x),
+		weights,
+		total
+	);
+	const sy = weightedStd(
+		used.map((p) => p.y),
+		weights,
+		total
+	);
+	const sigma = Math.sqrt((sx * sx + sy * sy) / 2);
+	return clampBandwidth(sigma * Math.pow(effectiveCount(weights), -1 / 6));
+}
+
+/**
+ * Silverman's rule of thumb, the geometric mean of the two axes
+ */
+export function silvermanBandwidth(points: MetricPoint[]): number | null {
+	const used = positive(points);
+	if (used.length < 2) return null;
+	const weights = used.map((p) => p.weight);
+	const total = weights.reduce((a, b) => a + b, 0);
+	const n = effectiveCount(weights);
+	const axis = (values: number[]) => {
+		const std = weightedStd(values, weights, total);
+		const iqr = weightedQuantile(values, weights, 0.75) - weightedQuantile(values, weights, 0.25);
+		const spread = iqr > 0 ? Math.min(std, iqr / 1.34) : std;
+		return 0.9 * spread * Math.pow(n, -1 / 5);
+	};
+	return clampBandwidth(Math.sqrt(axis(used.map((p) => p.x)) * axis(used.map((p) => p.y))));
+}
+
+/**
+ * Likelihood cross-validation over a log-spaced range of bandwidths, from
+ * half the closest logger spacing to the width of the network. Each logger is
+ * left out in turn and its detections scored against the density of the rest.
+ */
+export function crossValidatedBandwidth(points: MetricPoint[]): number | null {
+	const used = positive(points);
+	if (used.length < 3) return null;
+	const n = used.length;
+	const distSq = new Float64Array(n * n);
+	let closest = Infinity;
+	let widest = 0;
+	for (let i = 0; i < n; i++) {
+		for (let j = i + 1; j < n; j++) {
+			const d = (used[i].x - used[j].x) ** 2 + (used[i].y - used[j].y) ** 2;
+			distSq[i * n + j] = distSq[j * n + i] = d;
+			if (d > 0) closest = Math.min(closest, d);
+			widest = Math.max(widest, d);
+		}
+	}
+	if (!Number.isFinite(closest) || widest === 0) return null;
+
+	const total = used.reduce((sum, p) => sum + p.weight, 0);
+	const low = Math.log(Math.sqrt(closest) / 2);
+	const high = Math.log(Math.sqrt(widest));
+	let best: number | null = null;
+	let bestScore = -Infinity;
+	for (let step = 0; step < CV_STEPS; step++) {
+		const h = Math.exp(low + ((high - low) * step) / (CV_STEPS - 1));
+		const twoH2 = 2 * h * h;
+		let score = 0;
+		for (let i = 0; i < n; i++) {
+			let density = 0;
+			for (let j = 0; j < n; j++) {
+				if (j !== i) density += used[j].weight * Math.exp(-distSq[i * n + j] / twoH2);
+			}
+			density /= (total - used[i].weight) * Math.PI * twoH2;
+			score += used[i].weight * Math.log(density);
+		}
+		if (score > bestScore) {
+			bestScore = score;
+			best = h;
+		}
+	}
+	return best === null ? null : clampBandwidth(best);
+}
+
+/**
+ * Bandwidth in metres for the settings, falling back to the fixed value when
+ * the data can't support an automatic choice
+ */
+export function selectBandwidth(points: MetricPoint[], settings: BandwidthSettings): number {
+	const selectors: Record<BandwidthMethod, (p: MetricPoint[]) => number | null> = {
+		fixed: () => null,
+		scott: scottBandwidth,
+		silverman: silvermanBandwidth,
+		cv: crossValidatedBandwidth
+	};
+	return selectors[settings.method](points) ?? settings.metres;
+}
+
+/**
+ * Density in detections per hectare at a point
+ */
+export function densityPerHectare(points: MetricPoint[], x: number, y: number, h: number): number {
+	const twoH2 = 2 * h * h;
+	let sum = 0;
+	for (const p of points) sum += p.weight * Math.exp(-((p.x - x) ** 2 + (p.y - y) ** 2) / twoH2);
+	return (sum / (Math.PI * twoH2)) * SQUARE_METRES_PER_HECTARE;
+}
+
+/**
+ * Highest density at any logger over a set of frames, for a colour scale that
+ * holds still during playback
+ */
+export function peakDensityPerHectare(frames: MetricPoint[][], h: number): number {
+	let peak = 0;
+	for (const frame of frames) {
+		const used = positive(frame);
+		for (const p of used) peak = Math.max(peak, densityPerHectare(used, p.x, p.y, h));
+	}
+	return peak;
+}
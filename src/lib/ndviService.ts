@@ -3,10 +3,18 @@
  *
  * Loads and processes NDVI timeseries data from all loggers.
  * Used for adding vegetation phenology context to detection timelines.
+ * Quality control and smoothing follow an NdviProcessingConfig.
  */
 
-// Cutoff date for NDVI data (exclude data after this)
-const NDVI_CUTOFF_DATE = new Date('2025-06-13');
+import { deviation, quantileSorted } from 'd3';
+import { fetchJson, clearResourceCache } from './resourceLoader';
+import {
+	despike,
+	smoothNdvi,
+	NDVI_SMOOTHERS,
+	type NdviSmoother,
+	type SmootherSettings
+} from './ndviSmoothing';
 
 /**
  * Individual logger NDVI timeseries
@@ -37,15 +45,37 @@ export interface NdviData {
 }
 
 /**
- * Daily NDVI summary across all loggers
+ * NDVI summary for one flight date. Spread is across loggers (spatial);
+ * footprint values describe the pixels within each logger's footprint.
  */
 export interface DailyNdvi {
 	date: Date;
 	mean: number;
-	std: number;
+	std: number; // Across loggers (0 with a single logger)
 	min: number;
+	q1: number;
+	median: number;
+	q3: number;
 	max: number;
 	loggerCount: number;
+	/** Pooled (root mean square) within-footprint std, or null if the file has none */
+	footprintStd: number | null;
+	/** Most flights averaged for any one logger on the date */
+	flights: number;
+}
+
+/**
+ * One logger's flights after quality control. Footprint arrays are NaN where
+ * the file has no value.
+ */
+export interface NdviLoggerSeries {
+	dates: Date[];
+	ndvi: number[]; // Smoothed
+	raw: number[]; // Flight means that passed quality control, before smoothing
+	footprintStd: number[];
+	footprintMin: number[];
+	footprintMax: number[];
+	flights: number[]; // Flights averaged into each value
 }
 
 /**
@@ -53,163 +83,265 @@ export interface DailyNdvi {
  */
 export interface ProcessedNdviData {
 	daily: DailyNdvi[];
-	loggers: Map<string, { dates: Date[]; ndvi: number[] }>;
+	loggers: Map<string, NdviLoggerSeries>;
 	dateRange: { start: Date; end: Date } | null;
+	/** Settings the data was processed with */
+	config: NdviProcessingConfig;
 }
 
-// Cache for NDVI data
-let ndviCache: NdviData | null = null;
-let processedCache: ProcessedNdviData | null = null;
-
 /**
- * Apply a simple moving average smoothing to reduce noise
+ * How flights are filtered and smoothed. Set per season or for the whole
+ * manifest (`ndvi`), and adjustable in the app.
  */
-function smoothData(values: number[], windowSize: number = 3): number[] {
-	if (values.length < windowSize) return values;
-	
-	const result: number[] = [];
-	const halfWindow = Math.floor(windowSize / 2);
-	
-	for (let i = 0; i < values.length; i++) {
-		let sum = 0;
-		let count = 0;
-		
-		for (let j = Math.max(0, i - halfWindow); j <= Math.min(values.length - 1, i + halfWindow); j++) {
-			// Use median-like weighting to reduce outlier impact
-			sum += values[j];
-			count++;
-		}
-		
-		result.push(sum / count);
-	}
-	
-	return result;
+export interface NdviProcessingConfig extends SmootherSettings {
+	cutoffDate: string | null; // Exclude flights after this date (YYYY-MM-DD)
+	minNdvi: number; // Drop flight means at or below this (bare ground, water, bad mosaics)
+	maxStd: number | null; // Drop flights whose within-crown std is above this
+	despikeThreshold: number | null; // Replace values this far from their neighbours' average
 }
 
+export const DEFAULT_NDVI_PROCESSING: NdviProcessingConfig = {
+	cutoffDate: null,
+	minNdvi: 0.3,
+	maxStd: null,
+	despikeThreshold: 0.15,
+	smoother: 'moving-average',
+	window: 3,
+	loessSpan: 0.5
+};
+
+// Loggers with fewer flights left after quality control are not drawn
+const MIN_LOGGER_FLIGHTS = 3;
+
 /**
- * Apply a robust smoothing that handles outliers better
+ * Merge partial settings over the defaults; later ones win and undefined
+ * values are ignored
  */
-function robustSmooth(dates: Date[], values: number[], windowSize: number = 5): number[] {
-	if (values.length < 3) return values;
-	
-	// First pass: identify and replace outliers with interpolated values
-	const cleaned = [...values];
-	for (let i = 1; i < values.length - 1; i++) {
-		const prev = values[i - 1];
-		const curr = values[i];
-		const next = values[i + 1];
-		const expected = (prev + next) / 2;
-		const diff = Math.abs(curr - expected);
-		
-		// If value deviates more than 0.15 from neighbors average, replace it
-		if (diff > 0.15) {
-			cleaned[i] = expected;
+export function resolveNdviProcessing(
+	...layers: Array<Partial<NdviProcessingConfig> | null | undefined>
+): NdviProcessingConfig {
+	const config = { ...DEFAULT_NDVI_PROCESSING };
+	for (const layer of layers) {
+		if (!layer) continue;
+		for (const [key, value] of Object.entries(layer)) {
+			if (value !== undefined) (config as Record<string, unknown>)[key] = value;
 		}
 	}
-	
-	// Second pass: apply smoothing
-	return smoothData(cleaned, windowSize);
+	return config;
 }
 
 /**
  * Fetch NDVI data from JSON file
  */
-export async function fetchNdviData(): Promise<NdviData> {
-	if (ndviCache) {
-		return ndviCache;
-	}
+export function fetchNdviData(
+	url: string = '/detections/logger_ndvi_timeseries_2025.json',
+	signal?: AbortSignal
+): Promise<NdviData> {
+	return fetchJson<NdviData>(url, { resource: 'ndvi', label: 'NDVI data', signal });
+}
 
-	try {
-		const response = await fetch('/detections/logger_ndvi_timeseries_2025.json', {
-			signal: AbortSignal.timeout(15000)
-		});
+interface ScreenedFlight {
+	dateStr: string;
+	date: Date;
+	value: number;
+	std: number;
+	min: number;
+	max: number;
+	flights: number;
+	kept: boolean;
+}
 
-		if (!response.ok) {
-			throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-		}
+const orNaN = (value: number | null | undefined) => (value == null ? NaN : value);
+
+/**
+ * Quality-controlled flights of one logger, with the reason each was dropped
+ */
+function screenFlights(logger: LoggerNdvi, config: NdviProcessingConfig): ScreenedFlight[] {
+	const cutoff = config.cutoffDate ? new Date(config.cutoffDate) : null;
+	const { dates, ndvi_mean, ndvi_std, ndvi_min, ndvi_max, flights: counts } = logger.timeseries;
+	const flights: ScreenedFlight[] = [];
 
-		const data: NdviData = await response.json();
-		ndviCache = data;
-		return data;
-	} catch (err) {
-		console.error('Failed to fetch NDVI data:', err);
-		throw err;
+	for (let i = 0; i < dates.length; i++) {
+		const date = new Date(dates[i]);
+		const value = ndvi_mean[i];
+		if (value == null || isNaN(value)) continue;
+		const std = orNaN(ndvi_std?.[i]);
+		const kept =
+			!(cutoff && date > cutoff) &&
+			value > config.minNdvi &&
+			!(config.maxStd !== null && std > config.maxStd);
+		flights.push({
+			dateStr: dates[i],
+			date,
+			value,
+			std,
+			min: orNaN(ndvi_min?.[i]),
+			max: orNaN(ndvi_max?.[i]),
+			flights: counts?.[i] ?? 1,
+			kept
+		});
 	}
+	return flights;
 }
 
 /**
- * Process raw NDVI data into daily summaries and per-logger series
+ * Spread of one date's flights across loggers. A logger flown more than once
+ * on the date counts once, at the mean of its flights.
  */
-export function processNdviData(data: NdviData): ProcessedNdviData {
-	if (processedCache) {
-		return processedCache;
-	}
+function summarizeDate(dateStr: string, byLogger: Map<string, ScreenedFlight[]>): DailyNdvi {
+	const perLogger = Array.from(byLogger.values());
+	const values = perLogger
+		.map((f) => f.reduce((sum, flight) => sum + flight.value, 0) / f.length)
+		.sort((a, b) => a - b);
+	const stds = perLogger.flat().map((f) => f.std).filter((v) => !isNaN(v));
+	return {
+		date: new Date(dateStr),
+		mean: values.reduce((a, b) => a + b, 0) / values.length,
+		std: deviation(values) ?? 0,
+		min: values[0],
+		q1: quantileSorted(values, 0.25)!,
+		median: quantileSorted(values, 0.5)!,
+		q3: quantileSorted(values, 0.75)!,
+		max: values[values.length - 1],
+		loggerCount: values.length,
+		footprintStd:
+			stds.length > 0 ? Math.sqrt(stds.reduce((sum, v) => sum + v * v, 0) / stds.length) : null,
+		flights: Math.max(...perLogger.map((f) => f.reduce((sum, flight) => sum + flight.flights, 0)))
+	};
+}
+
+function smoothLogger(dates: Date[], raw: number[], config: NdviProcessingConfig): number[] {
+	const cleaned = config.despikeThreshold !== null ? despike(raw, config.despikeThreshold) : raw;
+	return smoothNdvi(dates, cleaned, config);
+}
+
+/**
+ * Process raw NDVI data into daily summaries and per-logger series.
+ * Not cached; use an NdviProcessor to reuse results.
+ */
+export function processNdviData(
+	data: NdviData,
+	options: Partial<NdviProcessingConfig> = {}
+): ProcessedNdviData {
+	const config = resolveNdviProcessing(options);
 
 	// Aggregate by date across all loggers
-	const dailyMap = new Map<string, { values: number[]; stds: number[]; mins: number[]; maxs: number[] }>();
-	const loggers = new Map<string, { dates: Date[]; ndvi: number[] }>();
+	const dailyMap = new Map<string, Map<string, ScreenedFlight[]>>();
+	const loggers = new Map<string, NdviLoggerSeries>();
 
 	let minDate: Date | null = null;
 	let maxDate: Date | null = null;
 
 	for (const [loggerName, logger] of Object.entries(data.loggers)) {
-		const dates: Date[] = [];
-		const ndvi: number[] = [];
-
-		for (let i = 0; i < logger.timeseries.dates.length; i++) {
-			const dateStr = logger.timeseries.dates[i];
-			const date = new Date(dateStr);
-			
-			// Skip data after cutoff date
-			if (date > NDVI_CUTOFF_DATE) continue;
-			
-			const mean = logger.timeseries.ndvi_mean[i];
-
-			if (mean != null && !isNaN(mean) && mean > 0.3) { // Filter out very low values (likely errors)
-				dates.push(date);
-				ndvi.push(mean);
-
-				// Track date range
-				if (!minDate || date < minDate) minDate = date;
-				if (!maxDate || date > maxDate) maxDate = date;
-
-				// Aggregate for daily summary
-				if (!dailyMap.has(dateStr)) {
-					dailyMap.set(dateStr, { values: [], stds: [], mins: [], maxs: [] });
-				}
-				const entry = dailyMap.get(dateStr)!;
-				entry.values.push(mean);
+		const kept = screenFlights(logger, config).filter((f) => f.kept);
+
+		for (const flight of kept) {
+			// Track date range
+			if (!minDate || flight.date < minDate) minDate = flight.date;
+			if (!maxDate || flight.date > maxDate) maxDate = flight.date;
+
+			// Aggregate for daily summary
+			let onDate = dailyMap.get(flight.dateStr);
+			if (!onDate) {
+				onDate = new Map();
+				dailyMap.set(flight.dateStr, onDate);
 			}
+			onDate.set(loggerName, [...(onDate.get(loggerName) ?? []), flight]);
 		}
 
-		if (dates.length > 2) {
-			// Apply robust smoothing to reduce noise
-			const smoothedNdvi = robustSmooth(dates, ndvi, 3);
-			loggers.set(loggerName, { dates, ndvi: smoothedNdvi });
+		if (kept.length >= MIN_LOGGER_FLIGHTS) {
+			const dates = kept.map((f) => f.date);
+			const raw = kept.map((f) => f.value);
+			loggers.set(loggerName, {
+				dates,
+				ndvi: smoothLogger(dates, raw, config),
+				raw,
+				footprintStd: kept.map((f) => f.std),
+				footprintMin: kept.map((f) => f.min),
+				footprintMax: kept.map((f) => f.max),
+				flights: kept.map((f) => f.flights)
+			});
 		}
 	}
 
 	// Convert daily map to sorted array
 	const daily: DailyNdvi[] = Array.from(dailyMap.entries())
-		.map(([dateStr, entry]) => {
-			const mean = entry.values.reduce((a, b) => a + b, 0) / entry.values.length;
-			return {
-				date: new Date(dateStr),
-				mean,
-				std: 0,
-				min: mean,
-				max: mean,
-				loggerCount: entry.values.length
-			};
-		})
+		.map(([dateStr, byLogger]) => summarizeDate(dateStr, byLogger))
 		.sort((a, b) => a.date.getTime() - b.date.getTime());
 
-	processedCache = { 
-		daily, 
+	return {
+		daily,
 		loggers,
-		dateRange: minDate && maxDate ? { start: minDate, end: maxDate } : null
+		dateRange: minDate && maxDate ? { start: minDate, end: maxDate } : null,
+		config
+	};
+}
+
+/**
+ * Processed results per raw file and settings. Each owner (e.g. the data
+ * store) keeps its own, so results can be dropped and recomputed.
+ */
+export interface NdviProcessor {
+	process(data: NdviData, config?: Partial<NdviProcessingConfig>): ProcessedNdviData;
+	clear(): void;
+}
+
+export function createNdviProcessor(): NdviProcessor {
+	let results = new WeakMap<NdviData, Map<string, ProcessedNdviData>>();
+	return {
+		process(data, config = {}) {
+			const resolved = resolveNdviProcessing(config);
+			const key = JSON.stringify(resolved);
+			let forFile = results.get(data);
+			if (!forFile) {
+				forFile = new Map();
+				results.set(data, forFile);
+			}
+			let result = forFile.get(key);
+			if (!result) {
+				result = processNdviData(data, resolved);
+				forFile.set(key, result);
+			}
+			return result;
+		},
+		clear() {
+			results = new WeakMap();
+		}
 	};
-	return processedCache;
+}
+
+/**
+ * Every flight of one logger next to the curve from each smoother, for
+ * comparing the settings
+ */
+export interface NdviSmootherComparison {
+	logger: string;
+	flights: Array<{ date: Date; value: number; kept: boolean }>;
+	dates: Date[];
+	curves: Array<{ smoother: NdviSmoother; values: number[] }>;
+}
+
+export function compareNdviSmoothers(
+	data: NdviData,
+	loggerName: string,
+	options: Partial<NdviProcessingConfig> = {}
+): NdviSmootherComparison | null {
+	const logger = data.loggers[loggerName];
+	if (!logger) return null;
+	const config = resolveNdviProcessing(options);
+	const flights = screenFlights(logger, config).map(({ date, value, kept }) => ({
+		date,
+		value,
+		kept
+	}));
+	const kept = flights.filter((f) => f.kept);
+	const dates = kept.map((f) => f.date);
+	const raw = kept.map((f) => f.value);
+	const curves = (Object.keys(NDVI_SMOOTHERS) as NdviSmoother[]).map((smoother) => ({
+		smoother,
+		values: smoothLogger(dates, raw, { ...config, smoother })
+	}));
+	return { logger: loggerName, flights, dates, curves };
 }
 
 /**
@@ -222,21 +354,20 @@ export function filterNdviByDateRange(
 ): ProcessedNdviData {
 	const daily = data.daily.filter(d => d.date >= startDate && d.date <= endDate);
 
-	const loggers = new Map<string, { dates: Date[]; ndvi: number[] }>();
+	const loggers = new Map<string, NdviLoggerSeries>();
 	for (const [name, logger] of data.loggers) {
-		const filteredDates: Date[] = [];
-		const filteredNdvi: number[] = [];
-
-		for (let i = 0; i < logger.dates.length; i++) {
-			if (logger.dates[i] >= startDate && logger.dates[i] <= endDate) {
-				filteredDates.push(logger.dates[i]);
-				filteredNdvi.push(logger.ndvi[i]);
-			}
-		}
-
-		if (filteredDates.length > 0) {
-			loggers.set(name, { dates: filteredDates, ndvi: filteredNdvi });
-		}
+		const keep = logger.dates.map((d) => d >= startDate && d <= endDate);
+		if (!keep.some(Boolean)) continue;
+		const pick = <T>(values: T[]) => values.filter((_, i) => keep[i]);
+		loggers.set(name, {
+			dates: pick(logger.dates),
+			ndvi: pick(logger.ndvi),
+			raw: pick(logger.raw),
+			footprintStd: pick(logger.footprintStd),
+			footprintMin: pick(logger.footprintMin),
+			footprintMax: pick(logger.footprintMax),
+			flights: pick(logger.flights)
+		});
 	}
 
 	return { 
@@ -244,14 +375,14 @@ export function filterNdviByDateRange(
 		loggers,
 		dateRange: daily.length > 0 
 			? { start: startDate, end: endDate }
-			: null
+			: null,
+		config: data.config
 	};
 }
 
 /**
- * Clear the NDVI cache
+ * Clear downloaded NDVI files (processed results live in each NdviProcessor)
  */
 export function clearNdviCache(): void {
-	ndviCache = null;
-	processedCache = null;
+	clearResourceCache('ndvi');
 }
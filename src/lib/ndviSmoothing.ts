@@ -0,0 +1,361 @@
+/**
+ * NDVI Smoothing - Smoothers for per-logger NDVI flight series
+ *
+ * Flights are irregularly spaced, so every smoother except the moving average
+ * works on the day of each flight rather than its index.
+ *
+ * - Moving average: centred window of flights
+ * - Savitzky–Golay: local quadratic least-squares fit over a window of flights
+ * - LOESS: tricube-weighted local linear fit over the nearest fraction of flights
+ * - Double logistic: green-up / senescence curve fitted to the whole season
+ *
+ * The logistic fits are also used to estimate phenology dates (see phenology).
+ */
+
+export type NdviSmoother =
+	| 'none'
+	| 'moving-average'
+	| 'savitzky-golay'
+	| 'loess'
+	| 'double-logistic';
+
+export const NDVI_SMOOTHERS: Record<NdviSmoother, { label: string; color: string }> = {
+	none: { label: 'None', color: '#94a3b8' },
+	'moving-average': { label: 'Moving average', color: '#86efac' },
+	'savitzky-golay': { label: 'Savitzky–Golay', color: '#fcd34d' },
+	loess: { label: 'LOESS', color: '#93c5fd' },
+	'double-logistic': { label: 'Double logistic', color: '#f9a8d4' }
+};
+
+export interface SmootherSettings {
+	smoother: NdviSmoother;
+	/** Flights in the moving average and Savitzky–Golay windows */
+	window: number;
+	/** Fraction of a logger's flights in each LOESS fit (0-1) */
+	loessSpan: number;
+}
+
+const DAY_MS = 86400000;
+
+// ============================================================================
+// Outliers
+// ============================================================================
+
+/**
+ * Replace values that differ from the average of their two neighbours by more
+ * than the threshold with that average
+ */
+export function despike(values: number[], threshold: number): number[] {
+	const cleaned = [...values];
+	for (let i = 1; i < values.length - 1; i++) {
+		const expected = (values[i - 1] + values[i + 1]) / 2;
+		if (Math.abs(values[i] - expected) > threshold) {
+			cleaned[i] = expected;
+		}
+	}
+	return cleaned;
+}
+
+// ============================================================================
+// Smoothers
+// ============================================================================
+
+export function movingAverage(values: number[], window: number): number[] {
+	if (values.length < window) return values;
+	const half = Math.floor(window / 2);
+	return values.map((_, i) => {
+		const from = Math.max(0, i - half);
+		const to = Math.min(values.length - 1, i + half);
+		let sum = 0;
+		for (let j = from; j <= to; j++) sum += values[j];
+		return sum / (to - from + 1);
+	});
+}
+
+/**
+ * Savitzky–Golay with a quadratic. Windows are at least 5 flights, since a
+ * quadratic through 3 points reproduces them exactly; they shrink at the ends.
+ */
+export function savitzkyGolay(days: number[], values: number[], window: number): number[] {
+	const half = Math.max(2, Math.floor(window / 2));
+	return values.map((value, i) => {
+		const from = Math.max(0, i - half);
+		const to = Math.min(values.length - 1, i + half);
+		const fit = localPolynomial(days, values, from, to, days[i], 2, () => 1);
+		return fit ?? value;
+	});
+}
+
+/**
+ * LOESS (locally weighted linear regression with tricube weights)
+ */
+export function loess(days: number[], values: number[], span: number): number[] {
+	const n = values.length;
+	const k = Math.min(n, Math.max(3, Math.ceil(span * n)));
+	return values.map((value, i) => {
+		// The k flights nearest in time form a contiguous run around i
+		let from = i;
+		let to = i;
+		while (to - from + 1 < k) {
+			if (from === 0) to++;
+			else if (to === n - 1) from--;
+			else if (days[i] - days[from - 1] <= days[to + 1] - days[i]) from--;
+			else to++;
+		}
+		const maxDistance = Math.max(days[i] - days[from], days[to] - days[i]) * 1.0001 || 1;
+		const fit = localPolynomial(days, values, from, to, days[i], 1, (d) => {
+			const u = Math.abs(d) / maxDistance;
+			return (1 - u ** 3) ** 3;
+		});
+		return fit ?? value;
+	});
+}
+
+/**
+ * A fitted logistic or double-logistic curve. Parameters are [a, b, c, d]
+ * or [a, b, c, d, e, f] with the midpoints d and f in days from `origin`.
+ */
+export interface LogisticFit {
+	params: number[];
+	origin: number;
+	/** Fitted NDVI on a day (same units as the fitted days) */
+	evaluate: (day: number) => number;
+}
+
+interface CurveModel {
+	value: (p: number[], x: number) => number;
+	gradient: (p: number[], x: number) => number[];
+}
+
+const LOGISTIC: CurveModel = {
+	value: (p, x) => p[0] + p[1] * logistic(p[2], p[3], x),
+	gradient: ([, b, c, d], x) => {
+		const s = logistic(c, d, x);
+		return [1, s, b * s * (1 - s) * (x - d), -b * s * (1 - s) * c];
+	}
+};
+
+const DOUBLE_LOGISTIC: CurveModel = {
+	value: (p, x) => p[0] + p[1] * (logistic(p[2], p[3], x) - logistic(p[4], p[5], x)),
+	gradient: ([, b, c, d, e, f], x) => {
+		const s1 = logistic(c, d, x);
+		const s2 = logistic(e, f, x);
+		return [
+			1,
+			s1 - s2,
+			b * s1 * (1 - s1) * (x - d),
+			-b * s1 * (1 - s1) * c,
+			-b * s2 * (1 - s2) * (x - f),
+			b * s2 * (1 - s2) * e
+		];
+	}
+};
+
+/**
+ * Least-squares fit of a curve by Levenberg–Marquardt; null if it fails
+ */
+function fitCurve(
+	model: CurveModel,
+	t: number[],
+	values: number[],
+	start: number[],
+	maxIterations = 200
+): number[] | null {
+	const k = start.length;
+	const sse = (p: number[]) =>
+		t.reduce((sum, x, i) => sum + (values[i] - model.value(p, x)) ** 2, 0);
+
+	let params = [...start];
+	let error = sse(params);
+	let lambda = 1e-3;
+	for (let iteration = 0; iteration < maxIterations; iteration++) {
+		const jtj = Array.from({ length: k }, () => new Array(k).fill(0));
+		const jtr = new Array(k).fill(0);
+		for (let i = 0; i < t.length; i++) {
+			const gradient = model.gradient(params, t[i]);
+			const residual = values[i] - model.value(params, t[i]);
+			for (let r = 0; r < k; r++) {
+				jtr[r] += gradient[r] * residual;
+				for (let col = 0; col < k; col++) jtj[r][col] += gradient[r] * gradient[col];
+			}
+		}
+		// The floor keeps the system solvable when a logistic is saturated and its
+		// rate and midpoint no longer change the curve
+		for (let r = 0; r < k; r++) jtj[r][r] += lambda * Math.max(jtj[r][r], 1e-6);
+
+		const step = solveLinear(jtj, jtr);
+		const candidate = step ? params.map((p, i) => p + step[i]) : params;
+		const candidateError = step ? sse(candidate) : Infinity;
+		if (Number.isFinite(candidateError) && candidateError < error) {
+			const improvement = error - candidateError;
+			params = candidate;
+			error = candidateError;
+			lambda = Math.max(lambda / 10, 1e-12);
+			if (improvement < 1e-9 * error + 1e-15) break;
+		} else {
+			lambda *= 10;
+			if (lambda > 1e12) break;
+		}
+	}
+	return params.every(Number.isFinite) ? params : null;
+}
+
+/** Range and position of the highest value, for starting parameters */
+function seriesShape(t: number[], values: number[]) {
+	let min = Infinity;
+	let max = -Infinity;
+	let peakIndex = 0;
+	for (let i = 0; i < values.length; i++) {
+		if (values[i] < min) min = values[i];
+		if (values[i] > max) {
+			max = values[i];
+			peakIndex = i;
+		}
+	}
+	return { min, max, peakTime: t[peakIndex] };
+}
+
+function toFit(model: CurveModel, params: number[] | null, origin: number): LogisticFit | null {
+	return params ? { params, origin, evaluate: (day) => model.value(params, day - origin) } : null;
+}
+
+/**
+ * Fit a + b/(1+e^(-c(t-d))), a green-up curve without senescence.
+ * `start` seeds the parameters (e.g. from a fit to the full series); null
+ * when there are fewer than 4 flights, no variation or the fit fails.
+ */
+export function fitLogistic(
+	days: number[],
+	values: number[],
+	start?: number[],
+	origin: number = days[0]
+): LogisticFit | null {
+	if (values.length < 4) return null;
+	const t = days.map((d) => d - origin);
+	const { min, max, peakTime } = seriesShape(t, values);
+	if (max - min < 1e-6) return null;
+	const seed = start ?? [min, max - min, 0.1, (t[0] + peakTime) / 2];
+	return toFit(LOGISTIC, fitCurve(LOGISTIC, t, values, seed, start ? 50 : 200), origin);
+}
+
+/**
+ * Fit a + b·(1/(1+e^(-c(t-d))) − 1/(1+e^(-e(t-f)))), green-up followed by
+ * senescence. Null when there are fewer than 6 flights, no variation or the
+ * fit fails.
+ */
+export function fitDoubleLogistic(
+	days: number[],
+	values: number[],
+	start?: number[],
+	origin: number = days[0]
+): LogisticFit | null {
+	if (values.length < 6) return null;
+	const t = days.map((d) => d - origin);
+	const { min, max, peakTime } = seriesShape(t, values);
+	if (max - min < 1e-6) return null;
+	const span = t[t.length - 1] - t[0] || 1;
+	// Start with green-up halfway to the peak and senescence well after it,
+	// since seasons often end before the canopy turns
+	const seed = start ?? [min, max - min, 0.1, (t[0] + peakTime) / 2, 0.1, peakTime + span];
+	return toFit(
+		DOUBLE_LOGISTIC,
+		fitCurve(DOUBLE_LOGISTIC, t, values, seed, start ? 50 : 200),
+		origin
+	);
+}
+
+/**
+ * Double-logistic curve at each flight, or the values unchanged when it
+ * can't be fitted
+ */
+export function doubleLogistic(days: number[], values: number[]): number[] {
+	const fit = fitDoubleLogistic(days, values);
+	if (!fit) return values;
+	const fitted = days.map(fit.evaluate);
+	return fitted.every(Number.isFinite) ? fitted : values;
+}
+
+/**
+ * Apply the chosen smoother to a series of flight dates and values
+ */
+export function smoothNdvi(dates: Date[], values: number[], settings: SmootherSettings): number[] {
+	if (values.length < 3) return values;
+	const days = dates.map((d) => d.getTime() / DAY_MS);
+	switch (settings.smoother) {
+		case 'moving-average':
+			return movingAverage(values, settings.window);
+		case 'savitzky-golay':
+			return savitzkyGolay(days, values, settings.window);
+		case 'loess':
+			return loess(days, values, settings.loessSpan);
+		case 'double-logistic':
+			return doubleLogistic(days, values);
+		default:
+			return values;
+	}
+}
+
+// ============================================================================
+// Least squares
+// ============================================================================
+
+function logistic(rate: number, midpoint: number, x: number): number {
+	return 1 / (1 + Math.exp(-rate * (x - midpoint)));
+}
+
+/**
+ * Weighted least-squares polynomial through values[from..to], evaluated at x
+ */
+function localPolynomial(
+	days: number[],
+	values: number[],
+	from: number,
+	to: number,
+	x: number,
+	degree: number,
+	weight: (distance: number) => number
+): number | null {
+	const terms = Math.min(degree, to - from) + 1;
+	const normal = Array.from({ length: terms }, () => new Array(terms).fill(0));
+	const rhs = new Array(terms).fill(0);
+	for (let j = from; j <= to; j++) {
+		const d = days[j] - x;
+		const w = weight(d);
+		if (w <= 0) continue;
+		const powers = [1];
+		for (let p = 1; p < terms; p++) powers.push(powers[p - 1] * d);
+		for (let r = 0; r < terms; r++) {
+			rhs[r] += w * powers[r] * values[j];
+			for (let c = 0; c < terms; c++) normal[r][c] += w * powers[r] * powers[c];
+		}
+	}
+	// Centred on x, so the constant term is the fitted value
+	return solveLinear(normal, rhs)?.[0] ?? null;
+}
+
+/**
+ * Solve a small dense system by Gaussian elimination with partial pivoting
+ */
+function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+	const n = rhs.length;
+	const a = matrix.map((row, i) => [...row, rhs[i]]);
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let r = col + 1; r < n; r++) {
+			if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+		}
+		if (Math.abs(a[pivot][col]) < 1e-12) return null;
+		[a[col], a[pivot]] = [a[pivot], a[col]];
+		for (let r = col + 1; r < n; r++) {
+			const factor = a[r][col] / a[col][col];
+			for (let c = col; c <= n; c++) a[r][c] -= factor * a[col][c];
+		}
+	}
+	const x = new Array(n).fill(0);
+	for (let r = n - 1; r >= 0; r--) {
+		let sum = a[r][n];
+		for (let c = r + 1; c < n; c++) sum -= a[r][c] * x[c];
+		x[r] = sum / a[r][r];
+	}
+	return x.every(Number.isFinite) ? x : null;
+}
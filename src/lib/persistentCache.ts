@@ -0,0 +1,161 @@
+/**
+ * Persistent Cache - IndexedDB storage for downloaded files and derived data
+ *
+ * Field staff often open the app with poor or no signal. Raw input files are
+ * kept so a failed download can fall back to the last good copy, and expensive
+ * derived results (map stats, weather) are kept so they are not recomputed or
+ * refetched while the underlying dataset version is unchanged.
+ *
+ * Every entry carries a version string (e.g. species metadata.generatedAt or
+ * NDVI metadata.generated); a read with a different version is a miss.
+ * All operations fail soft: if IndexedDB is unavailable the cache is a no-op.
+ */
+
+const DB_NAME = 'wytham-birdsong';
+const DB_VERSION = 1;
+
+/** File contents keyed by URL: raw bytes, or the parsed JSON */
+const FILES_STORE = 'files';
+/** Derived results keyed by a caller-chosen name */
+const DERIVED_STORE = 'derived';
+
+/**
+ * A stored value with the dataset version it was produced from
+ */
+export interface CachedEntry<T> {
+	version: string;
+	savedAt: number; // Epoch ms
+	value: T;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+	if (dbPromise) return dbPromise;
+
+	dbPromise = new Promise((resolve) => {
+		if (typeof indexedDB === 'undefined') {
+			resolve(null);
+			return;
+		}
+		try {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+				if (!db.objectStoreNames.contains(DERIVED_STORE)) db.createObjectStore(DERIVED_STORE);
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				console.warn('Persistent cache unavailable:', request.error);
+				resolve(null);
+			};
+		} catch (err) {
+			// Thrown in some private browsing modes
+			console.warn('Persistent cache unavailable:', err);
+			resolve(null);
+		}
+	});
+	return dbPromise;
+}
+
+function runRequest<T>(
+	store: string,
+	mode: IDBTransactionMode,
+	action: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+	return openDatabase().then(
+		(db) =>
+			new Promise<T | undefined>((resolve) => {
+				if (!db) {
+					resolve(undefined);
+					return;
+				}
+				try {
+					const request = action(db.transaction(store, mode).objectStore(store));
+					request.onsuccess = () => resolve(request.result);
+					request.onerror = () => {
+						console.warn(`Persistent cache ${mode} failed:`, request.error);
+						resolve(undefined);
+					};
+				} catch (err) {
+					console.warn(`Persistent cache ${mode} failed:`, err);
+					resolve(undefined);
+				}
+			})
+	);
+}
+
+async function readEntry<T>(
+	store: string,
+	key: string,
+	version?: string
+): Promise<CachedEntry<T> | null> {
+	const entry = await runRequest<CachedEntry<T>>(store, 'readonly', (s) => s.get(key));
+	if (!entry) return null;
+	if (version !== undefined && entry.version !== version) return null;
+	return entry;
+}
+
+async function writeEntry<T>(store: string, key: string, version: string, value: T): Promise<void> {
+	const entry: CachedEntry<T> = { version, savedAt: Date.now(), value };
+	await runRequest(store, 'readwrite', (s) => s.put(entry, key));
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Last stored copy of a file, whatever its version (used when offline)
+ */
+export function getCachedFile<T = ArrayBuffer>(url: string): Promise<CachedEntry<T> | null> {
+	return readEntry<T>(FILES_STORE, url);
+}
+
+// Versions are also stored on their own so checking one doesn't read a large file
+function versionKey(url: string): string {
+	return `version:${url}`;
+}
+
+/**
+ * Store a downloaded file (raw bytes or parsed JSON) unless the same
+ * version is already stored
+ */
+export async function putCachedFile<T>(url: string, version: string, value: T): Promise<void> {
+	const stored = await runRequest<string>(FILES_STORE, 'readonly', (s) => s.get(versionKey(url)));
+	if (stored === version) return;
+	await writeEntry(FILES_STORE, url, version, value);
+	await runRequest(FILES_STORE, 'readwrite', (s) => s.put(version, versionKey(url)));
+}
+
+// ============================================================================
+// Derived data
+// ============================================================================
+
+/**
+ * Derived value for `key`, or null if missing or produced from another version
+ */
+export async function getCachedDerived<T>(key: string, version: string): Promise<T | null> {
+	const entry = await readEntry<T>(DERIVED_STORE, key, version);
+	return entry ? entry.value : null;
+}
+
+/**
+ * Latest derived value for `key` regardless of version (used when offline)
+ */
+export function getLatestDerived<T>(key: string): Promise<CachedEntry<T> | null> {
+	return readEntry<T>(DERIVED_STORE, key);
+}
+
+export async function putCachedDerived<T>(key: string, version: string, value: T): Promise<void> {
+	await writeEntry(DERIVED_STORE, key, version, value);
+}
+
+/**
+ * Remove everything from the persistent cache
+ */
+export async function clearPersistentCache(): Promise<void> {
+	await runRequest(FILES_STORE, 'readwrite', (s) => s.clear());
+	await runRequest(DERIVED_STORE, 'readwrite', (s) => s.clear());
+}
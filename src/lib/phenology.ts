@@ -0,0 +1,203 @@
+/**
+ * Phenology - Canopy green-up dates per logger from its NDVI flights
+ *
+ * A logistic curve is fitted to each logger's quality-controlled flights (not
+ * the smoothed series), or a double logistic if the flights show the canopy
+ * browning again. On the rising part of the curve:
+ * - Start of season: 20% of the way from base to peak NDVI
+ * - Mid green-up: 50%
+ * - Maturity: 90%
+ * - Peak: the curve's maximum within the flown period
+ *
+ * Uncertainty is the jackknife standard error (refitting with each flight
+ * left out in turn), so dates that rest on one or two flights, or fall in a
+ * long gap between flights, come out less certain.
+ */
+
+import type { NdviLoggerSeries } from './ndviService';
+import { fitDoubleLogistic, fitLogistic, movingAverage, type LogisticFit } from './ndviSmoothing';
+
+const DAY_MS = 86400000;
+
+/** Green-up thresholds as fractions of the amplitude */
+const THRESHOLDS = { startOfSeason: 0.2, midGreenup: 0.5, maturity: 0.9 } as const;
+
+/** Below this NDVI amplitude a logger shows no clear green-up (e.g. evergreen canopy) */
+const MIN_AMPLITUDE = 0.05;
+
+/** A fall from the highest NDVI by this share of the range counts as senescence */
+const SENESCENCE_DROP = 0.25;
+
+export interface PhenologyDate {
+	date: Date;
+	/** Standard error in days; null if too few flights to estimate it */
+	uncertainty: number | null;
+}
+
+export interface LoggerPhenology {
+	logger: string;
+	flights: number;
+	startOfSeason: PhenologyDate | null;
+	midGreenup: PhenologyDate | null;
+	maturity: PhenologyDate | null;
+	peak: PhenologyDate | null;
+	/** Peak minus base NDVI of the fitted curve */
+	amplitude: number;
+	/** The curve is still rising at the last flight, so the true peak may be later */
+	peakCensored: boolean;
+}
+
+export type PhenologyMetric = 'startOfSeason' | 'midGreenup' | 'maturity' | 'peak' | 'amplitude';
+
+export const PHENOLOGY_METRICS: Record<PhenologyMetric, { label: string; description: string }> = {
+	startOfSeason: { label: 'Start of season', description: '20% of green-up' },
+	midGreenup: { label: 'Mid green-up', description: '50% of green-up' },
+	maturity: { label: 'Maturity', description: '90% of green-up' },
+	peak: { label: 'Peak greenness', description: 'Maximum of the fitted curve' },
+	amplitude: { label: 'Amplitude', description: 'Peak minus base NDVI' }
+};
+
+interface CurveDays {
+	startOfSeason: number | null;
+	midGreenup: number | null;
+	maturity: number | null;
+	peak: number;
+	amplitude: number;
+	censored: boolean;
+}
+
+/**
+ * Read the metrics off a fitted curve between the first and last flight
+ * (days since the epoch)
+ */
+function curveDays(fit: LogisticFit, first: number, last: number): CurveDays | null {
+	const step = 0.25;
+	const samples: Array<[number, number]> = [];
+	for (let day = first; day <= last; day += step) samples.push([day, fit.evaluate(day)]);
+
+	let peakIndex = 0;
+	let base = Infinity;
+	for (let i = 0; i < samples.length; i++) {
+		if (samples[i][1] > samples[peakIndex][1]) peakIndex = i;
+	}
+	// Base is the lowest point before the peak, so senescence doesn't count
+	for (let i = 0; i <= peakIndex; i++) base = Math.min(base, samples[i][1]);
+	const peakValue = samples[peakIndex][1];
+	const amplitude = peakValue - base;
+	if (!Number.isFinite(amplitude)) return null;
+
+	const crossing = (fraction: number): number | null => {
+		if (amplitude < MIN_AMPLITUDE) return null;
+		const level = base + fraction * amplitude;
+		for (let i = 1; i <= peakIndex; i++) {
+			const [d0, v0] = samples[i - 1];
+			const [d1, v1] = samples[i];
+			if (v0 < level && v1 >= level) return d0 + ((level - v0) / (v1 - v0)) * (d1 - d0);
+		}
+		return null;
+	};
+
+	return {
+		startOfSeason: crossing(THRESHOLDS.startOfSeason),
+		midGreenup: crossing(THRESHOLDS.midGreenup),
+		maturity: crossing(THRESHOLDS.maturity),
+		peak: samples[peakIndex][0],
+		amplitude,
+		censored: peakIndex >= samples.length - Math.ceil(2 / step)
+	};
+}
+
+/**
+ * Jackknife standard error of one metric, or null if fewer than half the
+ * refits produced it
+ */
+function jackknife(estimates: Array<number | null>): number | null {
+	const values = estimates.filter((v): v is number => v !== null);
+	if (values.length < Math.max(3, estimates.length / 2)) return null;
+	const n = values.length;
+	const mean = values.reduce((a, b) => a + b, 0) / n;
+	const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+	return Math.sqrt(((n - 1) / n) * variance);
+}
+
+function showsSenescence(values: number[]): boolean {
+	const smoothed = movingAverage(values, 3);
+	const max = Math.max(...smoothed);
+	const min = Math.min(...smoothed);
+	return max - smoothed[smoothed.length - 1] > SENESCENCE_DROP * (max - min);
+}
+
+/**
+ * Phenology of one logger, or null if its curve can't be fitted
+ */
+export function loggerPhenology(name: string, series: NdviLoggerSeries): LoggerPhenology | null {
+	const days = series.dates.map((d) => d.getTime() / DAY_MS);
+	const values = series.raw;
+	const fitCurve = showsSenescence(values) ? fitDoubleLogistic : fitLogistic;
+	const fit = fitCurve(days, values);
+	if (!fit) return null;
+	const first = days[0];
+	const last = days[days.length - 1];
+	const full = curveDays(fit, first, last);
+	if (!full) return null;
+
+	// Leave-one-out refits, seeded from the full fit so they converge quickly
+	const refits: CurveDays[] = [];
+	if (days.length > fit.params.length) {
+		for (let skip = 0; skip < days.length; skip++) {
+			const subDays = days.filter((_, i) => i !== skip);
+			const subValues = values.filter((_, i) => i !== skip);
+			const refit = fitCurve(subDays, subValues, fit.params, fit.origin);
+			const result = refit && curveDays(refit, first, last);
+			if (result) refits.push(result);
+		}
+	}
+
+	const toDate = (
+		key: 'startOfSeason' | 'midGreenup' | 'maturity' | 'peak'
+	): PhenologyDate | null => {
+		const day = full[key];
+		if (day === null) return null;
+		return {
+			date: new Date(Math.round(day) * DAY_MS),
+			uncertainty: refits.length > 0 ? jackknife(refits.map((r) => r[key])) : null
+		};
+	};
+
+	return {
+		logger: name,
+		flights: days.length,
+		startOfSeason: toDate('startOfSeason'),
+		midGreenup: toDate('midGreenup'),
+		maturity: toDate('maturity'),
+		peak: toDate('peak'),
+		amplitude: full.amplitude,
+		peakCensored: full.censored
+	};
+}
+
+/**
+ * Phenology for every logger with enough flights. Takes a few hundred
+ * milliseconds per season; phenologyService runs it off the main thread.
+ */
+export function computePhenology(
+	loggers: Iterable<[string, NdviLoggerSeries]>
+): Map<string, LoggerPhenology> {
+	const result = new Map<string, LoggerPhenology>();
+	for (const [name, series] of loggers) {
+		const phenology = loggerPhenology(name, series);
+		if (phenology) result.set(name, phenology);
+	}
+	return result;
+}
+
+/**
+ * Value of a metric for the map: day of year for dates, NDVI for amplitude
+ */
+export function phenologyValue(phenology: LoggerPhenology, metric: PhenologyMetric): number | null {
+	if (metric === 'amplitude') return phenology.amplitude;
+	const entry = phenology[metric];
+	if (!entry) return null;
+	const start = Date.UTC(entry.date.getUTCFullYear(), 0, 1);
+	return Math.floor((entry.date.getTime() - start) / DAY_MS) + 1;
+}
@@ -0,0 +1,22 @@
+/// <reference lib="webworker" />
+
+/**
+ * Phenology Worker - Fits logger green-up curves off the main thread
+ *
+ * Receives a PhenologyRequest and replies with a PhenologyResponse.
+ */
+
+import { computePhenology } from './phenology';
+import type { PhenologyRequest, PhenologyResponse } from './phenologyService';
+
+const worker = self as unknown as DedicatedWorkerGlobalScope;
+
+worker.onmessage = (event: MessageEvent<PhenologyRequest>) => {
+	let response: PhenologyResponse;
+	try {
+		response = { results: Array.from(computePhenology(event.data.loggers).values()) };
+	} catch (err) {
+		response = { results: [], error: err instanceof Error ? err.message : String(err) };
+	}
+	worker.postMessage(response);
+};
@@ -0,0 +1,87 @@
+/**
+ * Phenology Service - Background computation of logger phenology
+ *
+ * Curve fitting with jackknife refits takes too long for the main thread, so
+ * a season's loggers are sent to a Web Worker in one message. Without module
+ * workers the loggers are fitted on the main thread, yielding between them.
+ */
+
+import type { NdviLoggerSeries, ProcessedNdviData } from './ndviService';
+import { loggerPhenology, type LoggerPhenology } from './phenology';
+
+/** Worker request: the quality-controlled series of each logger */
+export interface PhenologyRequest {
+	loggers: Array<[string, NdviLoggerSeries]>;
+}
+
+/** Worker reply */
+export interface PhenologyResponse {
+	results: LoggerPhenology[];
+	error?: string;
+}
+
+function createWorker(): Worker | null {
+	if (typeof Worker === 'undefined') return null;
+	try {
+		return new Worker(new URL('./phenology.worker.ts', import.meta.url), { type: 'module' });
+	} catch (err) {
+		console.warn('Phenology worker unavailable, computing on the main thread:', err);
+		return null;
+	}
+}
+
+async function computeOnMainThread(
+	loggers: Array<[string, NdviLoggerSeries]>,
+	signal?: AbortSignal
+): Promise<Map<string, LoggerPhenology>> {
+	const result = new Map<string, LoggerPhenology>();
+	for (const [name, series] of loggers) {
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		signal?.throwIfAborted();
+		const phenology = loggerPhenology(name, series);
+		if (phenology) result.set(name, phenology);
+	}
+	return result;
+}
+
+/**
+ * Phenology of every logger in a processed NDVI season, computed in the
+ * background. Rejects with the signal's reason if aborted.
+ */
+export function computePhenologyInBackground(
+	ndvi: ProcessedNdviData,
+	signal?: AbortSignal
+): Promise<Map<string, LoggerPhenology>> {
+	const loggers = Array.from(ndvi.loggers.entries());
+	const worker = createWorker();
+	if (!worker) return computeOnMainThread(loggers, signal);
+
+	return new Promise((resolve, reject) => {
+		const stop = () => {
+			worker.terminate();
+			signal?.removeEventListener('abort', onAbort);
+		};
+		const onAbort = () => {
+			stop();
+			reject(signal?.reason);
+		};
+		signal?.addEventListener('abort', onAbort);
+
+		worker.onmessage = (event: MessageEvent<PhenologyResponse>) => {
+			stop();
+			if (event.data.error) {
+				reject(new Error(event.data.error));
+			} else {
+				resolve(new Map(event.data.results.map((r) => [r.logger, r])));
+			}
+		};
+		worker.onerror = (event) => {
+			// Module workers failed to start; carry on without one
+			console.warn('Phenology worker failed, computing on the main thread:', event.message);
+			event.preventDefault();
+			stop();
+			computeOnMainThread(loggers, signal).then(resolve, reject);
+		};
+		worker.postMessage({ loggers } satisfies PhenologyRequest);
+	});
+}
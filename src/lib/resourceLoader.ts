@@ -0,0 +1,394 @@
+/**
+ * Resource Loader - Single fetch layer for static files and remote APIs
+ *
+ * Every service loads through here, so a file requested by several services
+ * is downloaded once:
+ * - Concurrent requests for the same URL share one download
+ * - Completed results are kept in a shared in-memory cache (optionally with a max age)
+ * - Network errors, timeouts and 5xx/429 responses are retried with exponential backoff
+ * - Callers can cancel with an AbortSignal; the download itself is only
+ *   aborted once every caller waiting on it has gone
+ * - Failures are thrown as ResourceError, naming the resource and the reason
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What a request is for, used in errors and to clear related cache entries */
+export type ResourceKind =
+	| 'manifest'
+	| 'species'
+	| 'ndvi'
+	| 'birds'
+	| 'perimeter'
+	| 'layers'
+	| 'weather';
+
+export type ResourceFailure = 'http' | 'network' | 'timeout' | 'aborted' | 'parse';
+
+/** Download progress callback; total is null when the server sends no Content-Length */
+export type ByteProgress = (loaded: number, total: number | null) => void;
+
+export interface ResourceRequest {
+	resource: ResourceKind;
+	/** Human-readable name for error messages, e.g. "species data for 2025" */
+	label?: string;
+	signal?: AbortSignal;
+	onBytes?: ByteProgress;
+	/** Extra attempts after a transient failure (default 2) */
+	retries?: number;
+	/** Per-attempt timeout in ms (default none) */
+	timeoutMs?: number;
+	/** Keep the result for later callers (default true) */
+	cache?: boolean;
+	/** Refetch cached results older than this (default never) */
+	maxAgeMs?: number;
+}
+
+/**
+ * Thrown for any failed load. `reason` says what went wrong; `status` is
+ * set for HTTP errors.
+ */
+export class ResourceError extends Error {
+	readonly resource: ResourceKind;
+	readonly url: string;
+	readonly reason: ResourceFailure;
+	readonly status: number | null;
+
+	constructor(
+		resource: ResourceKind,
+		url: string,
+		reason: ResourceFailure,
+		message: string,
+		status: number | null = null,
+		cause?: unknown
+	) {
+		super(message, { cause });
+		this.name = 'ResourceError';
+		this.resource = resource;
+		this.url = url;
+		this.reason = reason;
+		this.status = status;
+	}
+
+	/** Whether trying again later could succeed */
+	get transient(): boolean {
+		if (this.reason === 'network' || this.reason === 'timeout') return true;
+		return (
+			this.reason === 'http' && this.status !== null && (this.status === 429 || this.status >= 500)
+		);
+	}
+}
+
+// ============================================================================
+// Shared requests
+// ============================================================================
+
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+
+interface SharedRequest<T> {
+	resource: ResourceKind;
+	promise: Promise<T>;
+	controller: AbortController;
+	listeners: Set<ByteProgress>;
+	consumers: number;
+	settledAt: number | null;
+}
+
+const bufferRequests = new Map<string, SharedRequest<ArrayBuffer>>();
+const jsonRequests = new Map<string, SharedRequest<unknown>>();
+
+function describeFailure(request: ResourceRequest, url: string, detail: string): string {
+	return `Failed to load ${request.label ?? url}: ${detail}`;
+}
+
+/**
+ * Status line of a failed response, with the server's explanation when the
+ * body is JSON carrying one (Open-Meteo sends `{ error: true, reason }` with a 400)
+ */
+async function httpFailureDetail(response: Response): Promise<string> {
+	const status = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+	try {
+		const body: unknown = JSON.parse(await response.text());
+		if (typeof body === 'object' && body !== null) {
+			const { reason, message } = body as { reason?: unknown; message?: unknown };
+			const explanation = typeof reason === 'string' ? reason : message;
+			if (typeof explanation === 'string' && explanation) return `${status}: ${explanation}`;
+		}
+	} catch {
+		// Not JSON, or the body couldn't be read; the status alone will do
+	}
+	return status;
+}
+
+function toResourceError(
+	err: unknown,
+	request: ResourceRequest,
+	url: string,
+	signal: AbortSignal,
+	timeoutMs?: number
+): ResourceError {
+	if (err instanceof ResourceError) return err;
+	if (signal.aborted) {
+		return new ResourceError(
+			request.resource,
+			url,
+			'aborted',
+			describeFailure(request, url, 'cancelled'),
+			null,
+			err
+		);
+	}
+	if (err instanceof DOMException && err.name === 'TimeoutError') {
+		const detail = `timed out after ${(timeoutMs ?? 0) / 1000} s`;
+		return new ResourceError(
+			request.resource,
+			url,
+			'timeout',
+			describeFailure(request, url, detail),
+			null,
+			err
+		);
+	}
+	return new ResourceError(
+		request.resource,
+		url,
+		'network',
+		describeFailure(request, url, 'network error'),
+		null,
+		err
+	);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(resolve, ms);
+		signal.addEventListener(
+			'abort',
+			() => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			},
+			{ once: true }
+		);
+	});
+}
+
+/**
+ * One attempt: fetch and read the body, streaming it when someone wants progress
+ */
+async function downloadOnce(
+	url: string,
+	request: ResourceRequest,
+	signal: AbortSignal,
+	listeners: Set<ByteProgress>
+): Promise<ArrayBuffer> {
+	const attemptSignal = request.timeoutMs
+		? AbortSignal.any([signal, AbortSignal.timeout(request.timeoutMs)])
+		: signal;
+
+	try {
+		const response = await fetch(url, { signal: attemptSignal });
+		if (!response.ok) {
+			const detail = await httpFailureDetail(response);
+			throw new ResourceError(
+				request.resource,
+				url,
+				'http',
+				describeFailure(request, url, detail),
+				response.status
+			);
+		}
+
+		const lengthHeader = response.headers.get('Content-Length');
+		const total = lengthHeader ? parseInt(lengthHeader, 10) || null : null;
+
+		if (!response.body || listeners.size === 0) {
+			return await response.arrayBuffer();
+		}
+
+		const reader = response.body.getReader();
+		const chunks: Uint8Array[] = [];
+		let loaded = 0;
+		listeners.forEach((cb) => cb(0, total));
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			loaded += value.byteLength;
+			listeners.forEach((cb) => cb(loaded, total));
+		}
+
+		const buffer = new Uint8Array(loaded);
+		let offset = 0;
+		for (const chunk of chunks) {
+			buffer.set(chunk, offset);
+			offset += chunk.byteLength;
+		}
+		return buffer.buffer;
+	} catch (err) {
+		throw toResourceError(err, request, url, signal, request.timeoutMs);
+	}
+}
+
+async function downloadWithRetry(
+	url: string,
+	request: ResourceRequest,
+	signal: AbortSignal,
+	listeners: Set<ByteProgress>
+): Promise<ArrayBuffer> {
+	const retries = request.retries ?? DEFAULT_RETRIES;
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await downloadOnce(url, request, signal, listeners);
+		} catch (err) {
+			const error = toResourceError(err, request, url, signal);
+			if (!error.transient || attempt >= retries) throw error;
+			// Exponential backoff with jitter so many clients don't retry in step
+			const delay = BACKOFF_BASE_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+			console.warn(`${error.message}; retrying in ${Math.round(delay)} ms`);
+			try {
+				await sleep(delay, signal);
+			} catch (abortErr) {
+				throw toResourceError(abortErr, request, url, signal);
+			}
+		}
+	}
+}
+
+/**
+ * Join (or start) the shared request for `key` and wait for it on behalf of
+ * one caller, honouring that caller's own abort signal
+ */
+function share<T>(
+	requests: Map<string, SharedRequest<T>>,
+	key: string,
+	request: ResourceRequest,
+	start: (signal: AbortSignal, listeners: Set<ByteProgress>) => Promise<T>
+): Promise<T> {
+	let shared = requests.get(key);
+	if (shared && shared.settledAt !== null && request.maxAgeMs !== undefined) {
+		if (Date.now() - shared.settledAt > request.maxAgeMs) {
+			requests.delete(key);
+			shared = undefined;
+		}
+	}
+
+	if (!shared) {
+		const controller = new AbortController();
+		const listeners = new Set<ByteProgress>();
+		const entry: SharedRequest<T> = {
+			resource: request.resource,
+			promise: start(controller.signal, listeners),
+			controller,
+			listeners,
+			consumers: 0,
+			settledAt: null
+		};
+		const keep = request.cache ?? true;
+		entry.promise.then(
+			() => {
+				entry.settledAt = Date.now();
+				listeners.clear();
+				if (!keep && requests.get(key) === entry) requests.delete(key);
+			},
+			() => {
+				// Never cache failures
+				if (requests.get(key) === entry) requests.delete(key);
+			}
+		);
+		requests.set(key, entry);
+		shared = entry;
+	}
+
+	if (shared.settledAt !== null) return shared.promise;
+
+	const entry = shared;
+	const { signal, onBytes } = request;
+	if (signal?.aborted) {
+		return Promise.reject(toResourceError(signal.reason, request, key, signal));
+	}
+
+	entry.consumers++;
+	if (onBytes) entry.listeners.add(onBytes);
+
+	return new Promise<T>((resolve, reject) => {
+		const leave = () => {
+			entry.consumers--;
+			if (onBytes) entry.listeners.delete(onBytes);
+			signal?.removeEventListener('abort', onAbort);
+		};
+		const onAbort = () => {
+			leave();
+			// Last caller gone: stop the download and forget it
+			if (entry.consumers === 0 && entry.settledAt === null) {
+				entry.controller.abort();
+				if (requests.get(key) === entry) requests.delete(key);
+			}
+			reject(toResourceError(signal!.reason, request, key, signal!));
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+		entry.promise.then(
+			(value) => {
+				leave();
+				resolve(value);
+			},
+			(err) => {
+				leave();
+				reject(err);
+			}
+		);
+	});
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch a URL as an ArrayBuffer
+ */
+export function fetchBuffer(url: string, request: ResourceRequest): Promise<ArrayBuffer> {
+	return share(bufferRequests, url, request, (signal, listeners) =>
+		downloadWithRetry(url, request, signal, listeners)
+	);
+}
+
+/**
+ * Fetch and parse a JSON URL. The parsed value is what is shared and cached,
+ * so callers must treat it as read-only.
+ */
+export function fetchJson<T>(url: string, request: ResourceRequest): Promise<T> {
+	return share(jsonRequests, url, request, async (signal, listeners) => {
+		const buffer = await downloadWithRetry(url, request, signal, listeners);
+		try {
+			return JSON.parse(new TextDecoder().decode(buffer)) as unknown;
+		} catch (err) {
+			const detail = err instanceof Error ? err.message : 'invalid JSON';
+			throw new ResourceError(
+				request.resource,
+				url,
+				'parse',
+				describeFailure(request, url, detail),
+				null,
+				err
+			);
+		}
+	}) as Promise<T>;
+}
+
+/**
+ * Drop cached results, either all of them or those for one kind of resource.
+ * Downloads in progress are left to finish.
+ */
+export function clearResourceCache(resource?: ResourceKind): void {
+	for (const requests of [bufferRequests, jsonRequests] as Map<string, SharedRequest<unknown>>[]) {
+		for (const [key, entry] of requests) {
+			if (entry.settledAt !== null && (!resource || entry.resource === resource)) {
+				requests.delete(key);
+			}
+		}
+	}
+}
@@ -0,0 +1,152 @@
+/**
+ * Season Service - Dataset manifest and multi-season helpers
+ *
+ * The loggers are redeployed every spring. Each season has its own detection
+ * export and NDVI file, listed in /detections/manifest.json. This module loads
+ * that manifest and provides the day-of-year alignment used to overlay one
+ * season on another.
+ */
+
+import type { Species } from './types';
+import type { WeatherSourceConfig } from './weatherService';
+import type { NdviProcessingConfig } from './ndviService';
+import type { VectorLayerConfig } from './vectorLayers';
+import { fetchJson, ResourceError } from './resourceLoader';
+
+const MANIFEST_URL = '/detections/manifest.json';
+
+/**
+ * One monitoring season and the files that belong to it
+ */
+export interface SeasonConfig {
+	id: string;
+	label: string;
+	year: number;
+	speciesData: string; // URL of species_data.json for this season
+	ndviData: string; // URL of the logger NDVI/positions file for this season
+	ndviCutoffDate?: string; // Exclude flights after this date (YYYY-MM-DD)
+	local?: boolean; // Imported from disk this session; never cached or saved
+	weather?: WeatherSourceConfig; // Overrides the manifest-wide weather source
+	ndvi?: Partial<NdviProcessingConfig>; // Overrides the manifest-wide NDVI processing
+}
+
+/**
+ * Dataset manifest structure
+ */
+export interface DatasetManifest {
+	defaultSeason: string;
+	seasons: SeasonConfig[];
+	perimeter?: Omit<VectorLayerConfig, 'id' | 'kind'>; // Study area outline
+	layers?: VectorLayerConfig[]; // Other map overlays: compartments, rides, streams, nest boxes
+	weather?: WeatherSourceConfig; // Default: Open-Meteo archive at the site
+	ndvi?: Partial<NdviProcessingConfig>; // Default: DEFAULT_NDVI_PROCESSING
+}
+
+/**
+ * Used when no manifest is deployed, so single-season deployments keep working
+ */
+export const DEFAULT_MANIFEST: DatasetManifest = {
+	defaultSeason: '2025',
+	seasons: [
+		{
+			id: '2025',
+			label: '2025',
+			year: 2025,
+			speciesData: '/detections/species_data.json',
+			ndviData: '/detections/logger_ndvi_timeseries_2025.json',
+			ndviCutoffDate: '2025-06-13'
+		}
+	],
+	perimeter: {
+		shp: '/detections/perimeter/perimeter.shp',
+		dbf: '/detections/perimeter/perimeter.dbf',
+		prj: '/detections/perimeter/perimeter.prj'
+	}
+};
+
+/**
+ * Fetch the dataset manifest, falling back to the built-in default
+ * if the file is missing
+ */
+export async function fetchManifest(signal?: AbortSignal): Promise<DatasetManifest> {
+	let data: DatasetManifest;
+	try {
+		data = await fetchJson<DatasetManifest>(MANIFEST_URL, {
+			resource: 'manifest',
+			label: 'dataset manifest',
+			signal
+		});
+	} catch (err) {
+		if (err instanceof ResourceError && err.status === 404) return DEFAULT_MANIFEST;
+		throw err;
+	}
+
+	if (!Array.isArray(data.seasons) || data.seasons.length === 0) {
+		throw new Error('Dataset manifest lists no seasons');
+	}
+	// Copy rather than modify the shared cached value
+	const manifest = { ...data };
+	if (!manifest.seasons.some((s) => s.id === manifest.defaultSeason)) {
+		manifest.defaultSeason = manifest.seasons[manifest.seasons.length - 1].id;
+	}
+	return manifest;
+}
+
+/**
+ * Look up a season by id
+ */
+export function getSeason(manifest: DatasetManifest, id: string): SeasonConfig | null {
+	return manifest.seasons.find((s) => s.id === id) ?? null;
+}
+
+// ============================================================================
+// Day-of-year alignment
+// ============================================================================
+
+/**
+ * Day of year (1-366) of a UTC date
+ */
+export function dayOfYear(date: Date): number {
+	const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+	return Math.floor((date.getTime() - start) / 86400000) + 1;
+}
+
+/**
+ * Move a date to the same day-of-year in another year.
+ * Day 366 in a non-leap target year maps to Dec 31.
+ */
+export function alignToYear(date: Date, year: number): Date {
+	const doy = dayOfYear(date);
+	const aligned = new Date(Date.UTC(year, 0, 1) + (doy - 1) * 86400000);
+	return aligned.getUTCFullYear() === year ? aligned : new Date(Date.UTC(year, 11, 31));
+}
+
+/**
+ * A species series re-dated onto a reference year so it can be drawn
+ * on the same time axis as another season
+ */
+export interface AlignedSeries {
+	dates: Date[];
+	mean: number[];
+	byDayOfYear: Map<number, number>; // Day of year -> mean detections
+}
+
+/**
+ * Align a species time series from one season onto the calendar of another
+ */
+export function alignSeriesByDayOfYear(species: Species, referenceYear: number): AlignedSeries {
+	const dates: Date[] = [];
+	const mean: number[] = [];
+	const byDayOfYear = new Map<number, number>();
+
+	const ts = species.timeSeries;
+	for (let i = 0; i < ts.dates.length; i++) {
+		const original = new Date(ts.dates[i]);
+		const value = ts.mean[i] ?? 0;
+		dates.push(alignToYear(original, referenceYear));
+		mean.push(value);
+		byDayOfYear.set(dayOfYear(original), value);
+	}
+
+	return { dates, mean, byDayOfYear };
+}
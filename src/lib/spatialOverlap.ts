@@ -0,0 +1,111 @@
+/**
+ * Spatial Overlap - How far two species use the same loggers on a day
+ *
+ * Each species' detections on a day are spread over the loggers as a
+ * proportion of its day total, and the two distributions are compared:
+ * - Schoener's D: 1 − ½ Σ|pᵢ − qᵢ|, the shared share of the two distributions
+ * - Pianka's O: Σ pᵢqᵢ / √(Σ pᵢ² Σ qᵢ²), the cosine between them
+ * Both run from 0 (no logger in common) to 1 (identical spread). A day on
+ * which either species has no detections has no overlap value (NaN).
+ */
+
+import type { Series, Species } from './types';
+
+export type OverlapIndex = 'schoener' | 'pianka';
+
+export const OVERLAP_INDICES: Record<OverlapIndex, { label: string; symbol: string }> = {
+	schoener: { label: "Schoener's D", symbol: 'D' },
+	pianka: { label: "Pianka's O", symbol: 'O' }
+};
+
+/** One pair of species' overlap on each day */
+export interface OverlapSeries {
+	pair: [string, string];
+	values: number[];
+}
+
+/**
+ * Overlap of two weight vectors over the same loggers
+ */
+export function overlapIndex(
+	a: ArrayLike<number>,
+	b: ArrayLike<number>,
+	index: OverlapIndex
+): number {
+	let sumA = 0;
+	let sumB = 0;
+	for (let i = 0; i < a.length; i++) {
+		sumA += a[i];
+		sumB += b[i];
+	}
+	if (sumA <= 0 || sumB <= 0) return NaN;
+
+	if (index === 'schoener') {
+		let difference = 0;
+		for (let i = 0; i < a.length; i++) difference += Math.abs(a[i] / sumA - b[i] / sumB);
+		return 1 - difference / 2;
+	}
+
+	let cross = 0;
+	let squaresA = 0;
+	let squaresB = 0;
+	for (let i = 0; i < a.length; i++) {
+		cross += a[i] * b[i];
+		squaresA += a[i] * a[i];
+		squaresB += b[i] * b[i];
+	}
+	return cross / Math.sqrt(squaresA * squaresB);
+}
+
+/** A species' counts on one day at each logger, in logger order */
+function dayCounts(sites: Record<string, Series>, loggers: string[], day: number): Float64Array {
+	const counts = new Float64Array(loggers.length);
+	loggers.forEach((logger, i) => {
+		counts[i] = Math.max(0, sites[logger]?.[day] || 0);
+	});
+	return counts;
+}
+
+/**
+ * Daily overlap of every pair of species over the given loggers. The species
+ * must share their dates.
+ */
+export function dailyOverlap(
+	species: Species[],
+	loggers: string[],
+	index: OverlapIndex
+): OverlapSeries[] {
+	const days = Math.min(...species.map((sp) => sp.timeSeries.dates.length));
+	const series: OverlapSeries[] = [];
+	for (let a = 0; a < species.length; a++) {
+		for (let b = a + 1; b < species.length; b++) {
+			const values = new Array<number>(days);
+			for (let day = 0; day < days; day++) {
+				values[day] = overlapIndex(
+					dayCounts(species[a].timeSeries.sites, loggers, day),
+					dayCounts(species[b].timeSeries.sites, loggers, day),
+					index
+				);
+			}
+			series.push({ pair: [species[a].name, species[b].name], values });
+		}
+	}
+	return series;
+}
+
+/**
+ * Mean over the pairs on each day, skipping pairs with no value that day
+ */
+export function meanOverlap(series: OverlapSeries[]): number[] {
+	const days = series[0]?.values.length ?? 0;
+	return Array.from({ length: days }, (_, day) => {
+		let sum = 0;
+		let count = 0;
+		for (const { values } of series) {
+			if (Number.isNaN(values[day])) continue;
+			sum += values[day];
+			count++;
+		}
+		return count > 0 ? sum / count : NaN;
+	});
+}
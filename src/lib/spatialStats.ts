@@ -0,0 +1,230 @@
+/**
+ * Spatial Stats - Where the loud loggers are, not just how unequal they are
+ *
+ * The Gini index in the map stats says whether detections are concentrated in
+ * a few loggers, but not whether those loggers sit together. These use the
+ * logger positions:
+ * - Global Moran's I: do loggers look like their neighbours? Above its
+ *   expectation (−1/(n−1)) the day's activity is clustered, below it is
+ *   dispersed. Significance is by random permutation of the counts.
+ * - Local Getis-Ord Gi*: a z-score per logger for its neighbourhood's share
+ *   of the day's detections; large positive is a hotspot, large negative a
+ *   coldspot.
+ * Neighbours are loggers within a distance band, weighted by inverse distance.
+ * Pure functions, so they run in the map stats worker.
+ */
+
+/** Neighbour lists for each logger; weights exclude the logger itself */
+export interface SpatialWeights {
+	neighbours: number[][];
+	weights: number[][];
+	/** Distance band in metres */
+	band: number;
+}
+
+/** Daily spatial statistics for one species */
+export interface SpatialStats {
+	/** Logger names, in the order of each day's Gi* scores */
+	sites: string[];
+	/** Distance band in metres */
+	band: number;
+	/** Global Moran's I per day; null on days with no detections or no variation */
+	moransI: (number | null)[];
+	/** Two-sided permutation p-value for Moran's I */
+	moransP: (number | null)[];
+	/** Gi* z-score for each logger on each day (day-major; 0 on empty days) */
+	giStar: number[][];
+	/** Loggers that are significant hotspots / coldspots each day */
+	hotspotCounts: number[];
+	coldspotCounts: number[];
+}
+
+/** |z| for a hotspot at the 5% level (two-sided) */
+export const GI_STAR_CRITICAL = 1.96;
+
+/** Permutations behind each Moran's I p-value */
+export const MORAN_PERMUTATIONS = 99;
+
+/**
+ * Inverse-distance weights within a distance band. By default the band is
+ * 1.5 × the median nearest-neighbour spacing, which on a grid takes in the
+ * eight surrounding loggers.
+ */
+export function spatialWeights(positions: [number, number][], band?: number): SpatialWeights {
+	const n = positions.length;
+	const distance = (i: number, j: number) =>
+		Math.hypot(positions[i][0] - positions[j][0], positions[i][1] - positions[j][1]);
+
+	if (band === undefined) {
+		const nearest: number[] = [];
+		for (let i = 0; i < n; i++) {
+			let best = Infinity;
+			for (let j = 0; j < n; j++) if (j !== i) best = Math.min(best, distance(i, j));
+			if (Number.isFinite(best)) nearest.push(best);
+		}
+		nearest.sort((a, b) => a - b);
+		band = 1.5 * (nearest[Math.floor(nearest.length / 2)] ?? 0);
+	}
+
+	const neighbours: number[][] = [];
+	const weights: number[][] = [];
+	for (let i = 0; i < n; i++) {
+		neighbours.push([]);
+		weights.push([]);
+		for (let j = 0; j < n; j++) {
+			const d = distance(i, j);
+			if (j === i || d > band || d <= 0) continue;
+			neighbours[i].push(j);
+			weights[i].push(1 / d);
+		}
+	}
+
+	// Scale so the average weight is 1; Moran's I and Gi* don't depend on it
+	let sum = 0;
+	let count = 0;
+	for (const row of weights) {
+		for (const w of row) sum += w;
+		count += row.length;
+	}
+	const scale = count > 0 ? count / sum : 1;
+	for (const row of weights) row.forEach((w, k) => (row[k] = w * scale));
+	return { neighbours, weights, band };
+}
+
+/**
+ * Global Moran's I, or null if the values don't vary
+ */
+export function moransI(values: ArrayLike<number>, w: SpatialWeights): number | null {
+	const n = values.length;
+	let mean = 0;
+	for (let i = 0; i < n; i++) mean += values[i];
+	mean /= n;
+
+	let squares = 0;
+	let cross = 0;
+	let total = 0;
+	for (let i = 0; i < n; i++) {
+		const zi = values[i] - mean;
+		squares += zi * zi;
+		const row = w.neighbours[i];
+		for (let k = 0; k < row.length; k++) {
+			cross += w.weights[i][k] * zi * (values[row[k]] - mean);
+			total += w.weights[i][k];
+		}
+	}
+	if (squares <= 0 || total <= 0) return null;
+	return (n / total) * (cross / squares);
+}
+
+/** Small seeded generator, so cached and recomputed p-values agree */
+function mulberry32(seed: number): () => number {
+	let a = seed >>> 0;
+	return () => {
+		a = (a + 0x6d2b79f5) >>> 0;
+		let t = a;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Moran's I with a two-sided pseudo p-value from randomly permuting the
+ * values over the loggers
+ */
+export function moransITest(
+	values: ArrayLike<number>,
+	w: SpatialWeights,
+	permutations: number = MORAN_PERMUTATIONS,
+	seed: number = 1
+): { i: number; p: number } | null {
+	const observed = moransI(values, w);
+	if (observed === null) return null;
+	const n = values.length;
+	const expected = -1 / (n - 1);
+	const random = mulberry32(seed);
+	const shuffled = Float64Array.from(values);
+	let extreme = 0;
+	for (let p = 0; p < permutations; p++) {
+		for (let i = n - 1; i > 0; i--) {
+			const j = Math.floor(random() * (i + 1));
+			const t = shuffled[i];
+			shuffled[i] = shuffled[j];
+			shuffled[j] = t;
+		}
+		const permuted = moransI(shuffled, w);
+		if (permuted !== null && Math.abs(permuted - expected) >= Math.abs(observed - expected)) {
+			extreme++;
+		}
+	}
+	return { i: observed, p: (extreme + 1) / (permutations + 1) };
+}
+
+/**
+ * Getis-Ord Gi* z-score for every logger. Each logger counts in its own
+ * neighbourhood with weight 1. All zero if the values don't vary.
+ */
+export function getisOrdGiStar(values: ArrayLike<number>, w: SpatialWeights): number[] {
+	const n = values.length;
+	let mean = 0;
+	let squares = 0;
+	for (let i = 0; i < n; i++) {
+		mean += values[i];
+		squares += values[i] * values[i];
+	}
+	mean /= n;
+	const sd = Math.sqrt(Math.max(0, squares / n - mean * mean));
+	if (sd <= 0 || n < 2) return new Array(n).fill(0);
+
+	return Array.from({ length: n }, (_, i) => {
+		let local = values[i];
+		let weightSum = 1;
+		let weightSquares = 1;
+		const row = w.neighbours[i];
+		for (let k = 0; k < row.length; k++) {
+			const wk = w.weights[i][k];
+			local += wk * values[row[k]];
+			weightSum += wk;
+			weightSquares += wk * wk;
+		}
+		const spread = sd * Math.sqrt((n * weightSquares - weightSum * weightSum) / (n - 1));
+		return spread > 0 ? (local - mean * weightSum) / spread : 0;
+	});
+}
+
+/**
+ * Moran's I and Gi* for every day. `counts[s]` is logger `sites[s]`'s series.
+ */
+export function computeSpatialStats(
+	sites: string[],
+	counts: ArrayLike<number>[],
+	positions: [number, number][],
+	numDays: number
+): SpatialStats {
+	const w = spatialWeights(positions);
+	const stats: SpatialStats = {
+		sites,
+		band: w.band,
+		moransI: [],
+		moransP: [],
+		giStar: [],
+		hotspotCounts: [],
+		coldspotCounts: []
+	};
+	const values = new Float64Array(sites.length);
+	for (let day = 0; day < numDays; day++) {
+		let total = 0;
+		for (let s = 0; s < sites.length; s++) {
+			values[s] = counts[s][day] || 0;
+			total += values[s];
+		}
+		const test = total > 0 ? moransITest(values, w, MORAN_PERMUTATIONS, day + 1) : null;
+		const z = total > 0 ? getisOrdGiStar(values, w) : new Array(sites.length).fill(0);
+		stats.moransI.push(test?.i ?? null);
+		stats.moransP.push(test?.p ?? null);
+		stats.giStar.push(z);
+		stats.hotspotCounts.push(z.filter((v) => v >= GI_STAR_CRITICAL).length);
+		stats.coldspotCounts.push(z.filter((v) => v <= -GI_STAR_CRITICAL).length);
+	}
+	return stats;
+}
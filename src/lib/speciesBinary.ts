@@ -0,0 +1,239 @@
+/**
+ * Packed Species Data - Columnar binary alternative to species_data.json
+ *
+ * Layout (all integers little-endian):
+ *
+ *   0   4 bytes   magic "WBSD"
+ *   4   uint32    format version (1)
+ *   8   uint32    header length H in bytes
+ *   12  H bytes   UTF-8 JSON header (PackedHeader)
+ *   ... column blocks, each starting on a 4-byte boundary
+ *
+ * Each species has a `mean` column (nDays values) and a `sites` column
+ * (nSites x nDays values, one site after another in header.sites order).
+ * Columns are Float32 for smoothed rates or Uint16 for integer counts, and are
+ * exposed as typed-array views over the downloaded buffer without copying.
+ */
+
+import type { Metadata, SpeciesData, Species } from './types';
+import { validatePackedHeader, throwIfInvalid } from './dataValidation';
+
+export const PACKED_MAGIC = 'WBSD';
+export const PACKED_VERSION = 1;
+const PREAMBLE_BYTES = 12;
+
+export type PackedDType = 'float32' | 'uint16';
+
+/**
+ * Location of one column block in the file
+ */
+export interface PackedColumn {
+	offset: number; // Byte offset from start of file
+	length: number; // Number of values
+	dtype: PackedDType;
+}
+
+export interface PackedSpecies {
+	name: string;
+	total: number;
+	rank: number;
+	mean: PackedColumn;
+	sites: PackedColumn;
+}
+
+/**
+ * JSON header at the start of a packed file
+ */
+export interface PackedHeader {
+	metadata: Metadata;
+	dates: string[];
+	sites: string[];
+	species: PackedSpecies[];
+}
+
+const BYTES_PER_VALUE: Record<PackedDType, number> = { float32: 4, uint16: 2 };
+
+// Typed-array views assume the platform is little-endian, as every browser we target is
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * True if a URL points at a packed file rather than JSON
+ */
+export function isPackedSpeciesUrl(url: string): boolean {
+	return /\.bin(\?|$)/.test(url);
+}
+
+/**
+ * True if a buffer starts with the packed-format magic bytes
+ */
+export function hasPackedMagic(buffer: ArrayBuffer): boolean {
+	if (buffer.byteLength < PREAMBLE_BYTES) return false;
+	const bytes = new Uint8Array(buffer, 0, 4);
+	return String.fromCharCode(...bytes) === PACKED_MAGIC;
+}
+
+function readColumn(buffer: ArrayBuffer, column: PackedColumn): Float32Array | Uint16Array {
+	if (LITTLE_ENDIAN) {
+		return column.dtype === 'float32'
+			? new Float32Array(buffer, column.offset, column.length)
+			: new Uint16Array(buffer, column.offset, column.length);
+	}
+	// Big-endian fallback: byte-swap through a DataView (copies)
+	const view = new DataView(buffer, column.offset, column.length * BYTES_PER_VALUE[column.dtype]);
+	if (column.dtype === 'float32') {
+		const out = new Float32Array(column.length);
+		for (let i = 0; i < column.length; i++) out[i] = view.getFloat32(i * 4, true);
+		return out;
+	}
+	const out = new Uint16Array(column.length);
+	for (let i = 0; i < column.length; i++) out[i] = view.getUint16(i * 2, true);
+	return out;
+}
+
+/**
+ * Decode a packed file into SpeciesData. Series are views into `buffer`,
+ * so the buffer must not be reused or transferred afterwards.
+ */
+export function decodeSpeciesBinary(
+	buffer: ArrayBuffer,
+	source: string = 'species_data.bin'
+): SpeciesData {
+	const view = new DataView(buffer);
+	if (!hasPackedMagic(buffer)) {
+		throw new Error(`${source} is not a packed species file (bad magic bytes)`);
+	}
+	const version = view.getUint32(4, true);
+	if (version !== PACKED_VERSION) {
+		throw new Error(`${source} uses packed format version ${version}, expected ${PACKED_VERSION}`);
+	}
+
+	const headerLength = view.getUint32(8, true);
+	const headerBytes = new Uint8Array(buffer, PREAMBLE_BYTES, headerLength);
+	const header: unknown = JSON.parse(new TextDecoder().decode(headerBytes));
+	throwIfInvalid(validatePackedHeader(header, buffer.byteLength, source));
+
+	const { metadata, dates, sites, species } = header as PackedHeader;
+	const nDays = dates.length;
+
+	const decoded: Species[] = species.map((sp) => {
+		const matrix = readColumn(buffer, sp.sites);
+		const siteSeries: Record<string, Float32Array | Uint16Array> = {};
+		sites.forEach((site, j) => {
+			siteSeries[site] = matrix.subarray(j * nDays, (j + 1) * nDays);
+		});
+		return {
+			name: sp.name,
+			total: sp.total,
+			rank: sp.rank,
+			timeSeries: {
+				dates,
+				mean: readColumn(buffer, sp.mean),
+				sites: siteSeries
+			}
+		};
+	});
+
+	return { metadata, species: decoded };
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function align4(n: number): number {
+	return (n + 3) & ~3;
+}
+
+/** Integer counts that fit in 16 bits are stored as Uint16, anything else as Float32 */
+function chooseDType(values: ArrayLike<number>[]): PackedDType {
+	for (const series of values) {
+		for (let i = 0; i < series.length; i++) {
+			const v = series[i] ?? 0;
+			if (!Number.isInteger(v) || v < 0 || v > 65535) return 'float32';
+		}
+	}
+	return 'uint16';
+}
+
+/**
+ * Encode SpeciesData in the packed format. All species must share the
+ * date axis of the first species; sites missing from a species are zero-filled.
+ */
+export function encodeSpeciesBinary(data: SpeciesData): ArrayBuffer {
+	const dates = data.species[0]?.timeSeries.dates ?? [];
+	const nDays = dates.length;
+	const siteSet = new Set<string>();
+	for (const sp of data.species) {
+		for (const site of Object.keys(sp.timeSeries.sites)) siteSet.add(site);
+	}
+	const sites = Array.from(siteSet).sort();
+
+	// Lay out columns first so the header can record their offsets
+	const placeholders = data.species.map((sp) => ({
+		meanType: chooseDType([sp.timeSeries.mean]),
+		sitesType: chooseDType(Object.values(sp.timeSeries.sites))
+	}));
+
+	const buildHeader = (start: number): PackedHeader => {
+		let offset = start;
+		const place = (length: number, dtype: PackedDType): PackedColumn => {
+			const column = { offset, length, dtype };
+			offset = align4(offset + length * BYTES_PER_VALUE[dtype]);
+			return column;
+		};
+		return {
+			metadata: data.metadata,
+			dates,
+			sites,
+			species: data.species.map((sp, s) => ({
+				name: sp.name,
+				total: sp.total,
+				rank: sp.rank,
+				mean: place(nDays, placeholders[s].meanType),
+				sites: place(sites.length * nDays, placeholders[s].sitesType)
+			}))
+		};
+	};
+
+	// Offsets depend on the header length, which depends on the offsets' digits;
+	// iterate until the layout is stable (converges in one or two passes)
+	const encoder = new TextEncoder();
+	let dataStart = align4(PREAMBLE_BYTES);
+	let header = buildHeader(dataStart);
+	let headerBytes = encoder.encode(JSON.stringify(header));
+	while (align4(PREAMBLE_BYTES + headerBytes.length) !== dataStart) {
+		dataStart = align4(PREAMBLE_BYTES + headerBytes.length);
+		header = buildHeader(dataStart);
+		headerBytes = encoder.encode(JSON.stringify(header));
+	}
+
+	const last = header.species[header.species.length - 1];
+	const totalBytes = last
+		? align4(last.sites.offset + last.sites.length * BYTES_PER_VALUE[last.sites.dtype])
+		: dataStart;
+
+	const buffer = new ArrayBuffer(totalBytes);
+	const bytes = new Uint8Array(buffer);
+	const view = new DataView(buffer);
+	for (let i = 0; i < 4; i++) bytes[i] = PACKED_MAGIC.charCodeAt(i);
+	view.setUint32(4, PACKED_VERSION, true);
+	view.setUint32(8, headerBytes.length, true);
+	bytes.set(headerBytes, PREAMBLE_BYTES);
+
+	const write = (column: PackedColumn, index: number, value: number) => {
+		if (column.dtype === 'float32') view.setFloat32(column.offset + index * 4, value, true);
+		else view.setUint16(column.offset + index * 2, value, true);
+	};
+
+	data.species.forEach((sp, s) => {
+		const packed = header.species[s];
+		for (let i = 0; i < nDays; i++) write(packed.mean, i, sp.timeSeries.mean[i] ?? 0);
+		sites.forEach((site, j) => {
+			const series = sp.timeSeries.sites[site];
+			if (!series) return;
+			for (let i = 0; i < nDays; i++) write(packed.sites, j * nDays + i, series[i] ?? 0);
+		});
+	});
+
+	return buffer;
+}
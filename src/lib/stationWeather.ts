@@ -0,0 +1,162 @@
+/**
+ * Station Weather - Parse records from the on-site meteorological station
+ *
+ * Accepts CSV or JSON (an array of records, or `{ "records": [...] }`) with
+ * either one record per day or one per reading (hourly or finer). Readings
+ * are aggregated to daily max/min/mean temperature, total precipitation and
+ * sunshine, and mean wind speed and cloud cover, so the result has the same
+ * shape as the Open-Meteo data.
+ *
+ * Units: °C, mm, km/h, % and hours of sunshine.
+ */
+
+import { csvParse } from 'd3';
+import type { DailyWeather } from './weatherService';
+
+type StationRecord = Record<string, unknown>;
+
+// Accepted field names for each value, compared case-insensitively
+const STATION_COLUMNS = {
+	time: ['date', 'datetime', 'time', 'timestamp'],
+	temperatureMax: ['temperature_max', 'temp_max', 'tmax', 'temperature_2m_max'],
+	temperatureMin: ['temperature_min', 'temp_min', 'tmin', 'temperature_2m_min'],
+	temperature: [
+		'temperature_mean',
+		'temp_mean',
+		'tmean',
+		'temperature_2m_mean',
+		'temperature',
+		'temp',
+		'air_temperature'
+	],
+	precipitation: ['precipitation_sum', 'precipitation', 'precip', 'rain', 'rainfall'],
+	windSpeed: ['wind_speed', 'windspeed', 'wind', 'wind_speed_10m'],
+	cloudCover: ['cloud_cover', 'cloudcover', 'cloud'],
+	sunshine: ['sunshine_hours', 'sunshine']
+};
+
+type StationField = keyof typeof STATION_COLUMNS;
+
+function findField(keys: string[], candidates: string[]): string | null {
+	// Earlier candidates win, so "temperature_mean" is preferred over "temperature"
+	for (const candidate of candidates) {
+		const key = keys.find((k) => k.trim().toLowerCase() === candidate);
+		if (key) return key;
+	}
+	return null;
+}
+
+function readRecords(text: string, source: string): StationRecord[] {
+	const trimmed = text.trimStart();
+	if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) return csvParse(text);
+
+	const parsed = JSON.parse(trimmed) as unknown;
+	const records = Array.isArray(parsed) ? parsed : (parsed as { records?: unknown }).records;
+	if (!Array.isArray(records)) {
+		throw new Error(`${source} should be an array of records or have a "records" array`);
+	}
+	return records as StationRecord[];
+}
+
+function toNumber(value: unknown): number | null {
+	if (value === null || value === undefined || value === '') return null;
+	const n = Number(value);
+	return Number.isFinite(n) ? n : null;
+}
+
+interface DayAccumulator {
+	max: number;
+	min: number;
+	sum: number;
+	count: number;
+	precipitation: number;
+	wind: number[];
+	cloud: number[];
+	sunshine: number | null;
+}
+
+const mean = (values: number[]) =>
+	values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+/**
+ * Convert station records to daily weather, sorted by date.
+ * Days without any temperature reading are left out.
+ */
+export function parseStationWeather(text: string, source: string): DailyWeather[] {
+	const records = readRecords(text, source);
+	if (records.length === 0) return [];
+
+	const keys = Object.keys(records[0]);
+	const field = Object.fromEntries(
+		Object.entries(STATION_COLUMNS).map(([name, candidates]) => [name, findField(keys, candidates)])
+	) as Record<StationField, string | null>;
+
+	if (!field.time) {
+		throw new Error(`${source} needs a date or time column (found: ${keys.join(', ') || 'none'})`);
+	}
+	if (!field.temperature && !(field.temperatureMax && field.temperatureMin)) {
+		throw new Error(`${source} needs a temperature column, or temperature_max and temperature_min`);
+	}
+
+	const days = new Map<string, DayAccumulator>();
+	for (const record of records) {
+		// Local date of the reading: readings are assumed to be in site time
+		const day = String(record[field.time] ?? '')
+			.trim()
+			.slice(0, 10);
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) continue;
+
+		let acc = days.get(day);
+		if (!acc) {
+			acc = {
+				max: -Infinity,
+				min: Infinity,
+				sum: 0,
+				count: 0,
+				precipitation: 0,
+				wind: [],
+				cloud: [],
+				sunshine: null
+			};
+			days.set(day, acc);
+		}
+
+		const value = (name: StationField) => (field[name] ? toNumber(record[field[name]]) : null);
+		const temperature = value('temperature');
+		const max = value('temperatureMax') ?? temperature;
+		const min = value('temperatureMin') ?? temperature;
+		const average = temperature ?? (max !== null && min !== null ? (max + min) / 2 : null);
+
+		if (max !== null) acc.max = Math.max(acc.max, max);
+		if (min !== null) acc.min = Math.min(acc.min, min);
+		if (average !== null) {
+			acc.sum += average;
+			acc.count++;
+		}
+		acc.precipitation += value('precipitation') ?? 0;
+
+		const wind = value('windSpeed');
+		const cloud = value('cloudCover');
+		const sunshine = value('sunshine');
+		if (wind !== null) acc.wind.push(wind);
+		if (cloud !== null) acc.cloud.push(cloud);
+		if (sunshine !== null) acc.sunshine = (acc.sunshine ?? 0) + sunshine;
+	}
+
+	return Array.from(days.entries())
+		.filter(([, acc]) => acc.count > 0)
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([day, acc]) => {
+			const temperatureMean = acc.sum / acc.count;
+			return {
+				date: new Date(day),
+				temperatureMax: Number.isFinite(acc.max) ? acc.max : temperatureMean,
+				temperatureMin: Number.isFinite(acc.min) ? acc.min : temperatureMean,
+				temperatureMean,
+				precipitationSum: acc.precipitation,
+				windSpeed: mean(acc.wind),
+				cloudCover: mean(acc.cloud),
+				sunshineHours: acc.sunshine ?? undefined
+			};
+		});
+}
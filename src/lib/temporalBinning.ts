@@ -0,0 +1,384 @@
+/**
+ * Temporal Binning - One time step for the chart, the map and their layers
+ *
+ * Daily series are grouped into bins (ISO weeks, N-day blocks counted from
+ * the first date, or calendar months) and each bin is reduced to one value
+ * by sum, mean or max. A binned species has one date per bin, the bin's
+ * first day, so everything built on `timeSeries.dates` steps at the same
+ * resolution. Weather and NDVI are grouped into the same bins; state
+ * variables (temperature, NDVI) are averaged whatever the aggregation.
+ */
+
+import type { Series, Species, SpeciesData } from './types';
+import type { DailyNdvi } from './ndviService';
+import type { WeatherDay } from './weatherIndices';
+
+export type TemporalResolution = 'day' | 'week' | 'days' | 'month';
+export type TemporalAggregation = 'sum' | 'mean' | 'max';
+
+export interface TemporalBinning {
+	resolution: TemporalResolution;
+	/** Bin length for the 'days' resolution */
+	days: number;
+	aggregation: TemporalAggregation;
+}
+
+/** A run of consecutive dates in one bin */
+export interface TemporalBin {
+	/** First and last day covered by the bin (YYYY-MM-DD), whether or not there is data */
+	start: string;
+	end: string;
+	/** Index range of the daily dates in the bin; `to` is exclusive */
+	from: number;
+	to: number;
+}
+
+export const TEMPORAL_RESOLUTIONS: Record<TemporalResolution, { label: string }> = {
+	day: { label: 'Day' },
+	week: { label: 'Week' },
+	days: { label: 'N days' },
+	month: { label: 'Month' }
+};
+
+export const TEMPORAL_AGGREGATIONS: Record<TemporalAggregation, { label: string }> = {
+	sum: { label: 'Sum' },
+	mean: { label: 'Mean' },
+	max: { label: 'Max' }
+};
+
+export const DEFAULT_BINNING: TemporalBinning = { resolution: 'day', days: 3, aggregation: 'sum' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** True if the binning leaves daily series as they are */
+export function isDaily(binning: TemporalBinning): boolean {
+	return (
+		binning.resolution === 'day' || (binning.resolution === 'days' && binningDays(binning) === 1)
+	);
+}
+
+/** Bin length for the 'days' resolution, a whole number of at least 1 */
+function binningDays(binning: TemporalBinning): number {
+	return Math.max(1, Math.round(binning.days) || 1);
+}
+
+/** Typical days in one bin, for scaling playback and trend windows */
+export function nominalBinDays(binning: TemporalBinning): number {
+	switch (binning.resolution) {
+		case 'day':
+			return 1;
+		case 'week':
+			return 7;
+		case 'days':
+			return binningDays(binning);
+		case 'month':
+			return 30;
+	}
+}
+
+/** A stable string for caching per binning */
+export function binningKey(binning: TemporalBinning): string {
+	if (isDaily(binning)) return 'day';
+	const size = binning.resolution === 'days' ? `${binningDays(binning)}d` : binning.resolution;
+	return `${size}:${binning.aggregation}`;
+}
+
+function dayNumber(date: string): number {
+	return Math.floor(Date.parse(date.slice(0, 10)) / DAY_MS);
+}
+
+function isoDate(day: number): string {
+	return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** First and last day of the bin a day falls in */
+function binSpan(day: number, firstDay: number, binning: TemporalBinning): [number, number] {
+	switch (binning.resolution) {
+		case 'day':
+			return [day, day];
+		case 'week': {
+			// 1 Jan 1970 was a Thursday, so day 4 is a Monday
+			const start = day - ((((day - 4) % 7) + 7) % 7);
+			return [start, start + 6];
+		}
+		case 'days': {
+			const size = binningDays(binning);
+			const start = day - ((((day - firstDay) % size) + size) % size);
+			return [start, start + size - 1];
+		}
+		case 'month': {
+			const date = new Date(day * DAY_MS);
+			const year = date.getUTCFullYear();
+			const month = date.getUTCMonth();
+			return [Date.UTC(year, month, 1) / DAY_MS, Date.UTC(year, month + 1, 1) / DAY_MS - 1];
+		}
+	}
+}
+
+/**
+ * Group sorted daily dates (YYYY-MM-DD) into bins
+ */
+export function temporalBins(dates: string[], binning: TemporalBinning): TemporalBin[] {
+	const bins: TemporalBin[] = [];
+	if (dates.length === 0) return bins;
+	const firstDay = dayNumber(dates[0]);
+	let current: TemporalBin | null = null;
+	let currentEnd = -Infinity;
+	dates.forEach((date, i) => {
+		const day = dayNumber(date);
+		if (current && day <= currentEnd) {
+			current.to = i + 1;
+			return;
+		}
+		const [start, end] = isDaily(binning) ? [day, day] : binSpan(day, firstDay, binning);
+		current = { start: isoDate(start), end: isoDate(end), from: i, to: i + 1 };
+		currentEnd = end;
+		bins.push(current);
+	});
+	return bins;
+}
+
+/**
+ * Reduce `values[from..to)` to one number. Missing values count as 0 for the
+ * sum and max and are skipped by the mean.
+ */
+export function aggregateRange(
+	values: ArrayLike<number>,
+	from: number,
+	to: number,
+	aggregation: TemporalAggregation
+): number {
+	let sum = 0;
+	let count = 0;
+	let max = 0;
+	for (let i = from; i < to && i < values.length; i++) {
+		const value = values[i];
+		if (value == null || Number.isNaN(value)) continue;
+		sum += value;
+		count++;
+		if (value > max) max = value;
+	}
+	if (aggregation === 'max') return max;
+	if (aggregation === 'mean') return count > 0 ? sum / count : 0;
+	return sum;
+}
+
+/** One value per bin */
+export function binSeries(
+	values: Series,
+	bins: TemporalBin[],
+	aggregation: TemporalAggregation
+): number[] {
+	return bins.map((bin) => aggregateRange(values, bin.from, bin.to, aggregation));
+}
+
+/**
+ * A species with one value per bin, dated by each bin's first day
+ */
+export function binSpecies(
+	species: Species,
+	bins: TemporalBin[],
+	aggregation: TemporalAggregation
+): Species {
+	const sites: Record<string, Series> = {};
+	for (const [site, counts] of Object.entries(species.timeSeries.sites)) {
+		sites[site] = binSeries(counts, bins, aggregation);
+	}
+	return {
+		...species,
+		timeSeries: {
+			dates: bins.map((bin) => bin.start),
+			mean: binSeries(species.timeSeries.mean, bins, aggregation),
+			sites
+		}
+	};
+}
+
+/**
+ * Every species of a season at a binning. Species share their dates, so the
+ * bins come from the first. Daily binning returns the data unchanged.
+ */
+export function binSpeciesData(data: SpeciesData, binning: TemporalBinning): SpeciesData {
+	if (isDaily(binning) || data.species.length === 0) return data;
+	const bins = temporalBins(data.species[0].timeSeries.dates, binning);
+	return {
+		...data,
+		species: data.species.map((sp) => binSpecies(sp, bins, binning.aggregation))
+	};
+}
+
+/** Items grouped by the bin their date falls in; items outside every bin are dropped */
+function groupByBin<T extends { date: Date }>(items: T[], bins: TemporalBin[]): T[][] {
+	const groups: T[][] = bins.map(() => []);
+	const starts = bins.map((bin) => dayNumber(bin.start));
+	const ends = bins.map((bin) => dayNumber(bin.end));
+	for (const item of items) {
+		const day = Math.floor(item.date.getTime() / DAY_MS);
+		let lo = 0;
+		let hi = bins.length - 1;
+		while (lo < hi) {
+			const mid = (lo + hi + 1) >> 1;
+			if (starts[mid] <= day) lo = mid;
+			else hi = mid - 1;
+		}
+		if (bins.length > 0 && day >= starts[lo] && day <= ends[lo]) groups[lo].push(item);
+	}
+	return groups;
+}
+
+function mean(values: number[]): number {
+	const finite = values.filter((v) => v != null && Number.isFinite(v));
+	return finite.length > 0 ? finite.reduce((a, b) => a + b, 0) / finite.length : NaN;
+}
+
+/** Highest or lowest of the readings present; NaN if there are none */
+function extreme(values: number[], pick: (...values: number[]) => number): number {
+	const present = values.filter((v) => v != null && Number.isFinite(v));
+	return present.length > 0 ? pick(...present) : NaN;
+}
+
+function optionalMean(values: (number | null | undefined)[]): number | undefined {
+	const present = values.filter((v): v is number => v != null && Number.isFinite(v));
+	return present.length > 0 ? mean(present) : undefined;
+}
+
+/**
+ * Weather for each bin, dated by the bin's first day. Rain, sunshine and
+ * growing degree days follow the aggregation; the temperature range is the
+ * bin's lowest minimum and highest maximum, other readings are averaged and
+ * the running totals are taken at the end of the bin.
+ */
+export function binWeatherDays(
+	days: WeatherDay[],
+	bins: TemporalBin[],
+	aggregation: TemporalAggregation
+): WeatherDay[] {
+	const reduce = (values: number[]) => aggregateRange(values, 0, values.length, aggregation);
+	const binned: WeatherDay[] = [];
+	groupByBin(days, bins).forEach((group, b) => {
+		if (group.length === 0) return;
+		const last = group[group.length - 1];
+		binned.push({
+			date: new Date(Date.parse(bins[b].start)),
+			temperatureMax: extreme(
+				group.map((d) => d.temperatureMax),
+				Math.max
+			),
+			temperatureMin: extreme(
+				group.map((d) => d.temperatureMin),
+				Math.min
+			),
+			temperatureMean: mean(group.map((d) => d.temperatureMean)),
+			precipitationSum: reduce(group.map((d) => d.precipitationSum)),
+			windSpeed: optionalMean(group.map((d) => d.windSpeed)),
+			cloudCover: optionalMean(group.map((d) => d.cloudCover)),
+			sunshineHours: group.some((d) => d.sunshineHours != null)
+				? reduce(group.map((d) => d.sunshineHours ?? NaN))
+				: undefined,
+			sunrise: group[0].sunrise,
+			sunset: group[0].sunset,
+			photoperiod: optionalMean(group.map((d) => d.photoperiod)),
+			gdd: reduce(group.map((d) => d.gdd)),
+			warmth: last.warmth,
+			frost: group.some((d) => d.frost),
+			frostDays: last.frostDays
+		});
+	});
+	return binned;
+}
+
+/**
+ * Wood-wide NDVI for each bin, dated by the bin's first day: every statistic
+ * is averaged over the dates in the bin
+ */
+export function binNdviDaily(daily: DailyNdvi[], bins: TemporalBin[]): DailyNdvi[] {
+	const binned: DailyNdvi[] = [];
+	groupByBin(daily, bins).forEach((group, b) => {
+		if (group.length === 0) return;
+		const footprint = group.map((d) => d.footprintStd).filter((v): v is number => v !== null);
+		binned.push({
+			date: new Date(Date.parse(bins[b].start)),
+			mean: mean(group.map((d) => d.mean)),
+			std: mean(group.map((d) => d.std)),
+			min: mean(group.map((d) => d.min)),
+			q1: mean(group.map((d) => d.q1)),
+			median: mean(group.map((d) => d.median)),
+			q3: mean(group.map((d) => d.q3)),
+			max: mean(group.map((d) => d.max)),
+			loggerCount: Math.max(...group.map((d) => d.loggerCount)),
+			footprintStd: footprint.length > 0 ? mean(footprint) : null,
+			flights: group.reduce((total, d) => total + d.flights, 0)
+		});
+	});
+	return binned;
+}
+
+/**
+ * The bin starting on a date, as a label such as "Mon 3 Mar" (daily),
+ * "3–9 Mar" or "Mar 2025"
+ */
+export function formatBin(start: string, binning: TemporalBinning, lastDate?: string): string {
+	const first = dayNumber(start);
+	const date = new Date(first * DAY_MS);
+	if (isDaily(binning)) {
+		return date.toLocaleDateString(undefined, {
+			weekday: 'short',
+			day: 'numeric',
+			month: 'short',
+			timeZone: 'UTC'
+		});
+	}
+	if (binning.resolution === 'month') {
+		return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+	}
+	let end = binSpan(first, first, binning)[1];
+	if (lastDate) end = Math.min(end, dayNumber(lastDate));
+	const endDate = new Date(end * DAY_MS);
+	const day = (d: Date) => d.getUTCDate();
+	const month = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' });
+	if (end === first) return `${day(date)} ${month(date)}`;
+	return date.getUTCMonth() === endDate.getUTCMonth()
+		? `${day(date)}–${day(endDate)} ${month(date)}`
+		: `${day(date)} ${month(date)} – ${day(endDate)} ${month(endDate)}`;
+}
+
+/** Name of the trend the map stats compute at a binning */
+export function trendLabel(binning: TemporalBinning): string {
+	if (isDaily(binning)) return '7-day trend';
+	if (binning.resolution === 'week') return 'Week-on-week trend';
+	if (binning.resolution === 'month') return 'Month-on-month trend';
+	return `${trendWindow(binning) * binningDays(binning)}-day trend`;
+}
+
+/** Bins in the trailing window the map stats' trend compares against: about a week */
+export function trendWindow(binning: TemporalBinning): number {
+	return Math.max(1, Math.round(7 / nominalBinDays(binning)));
+}
+
+/** "Daily", "Weekly", "Monthly" or e.g. "3-day", for titles */
+export function binningAdjective(binning: TemporalBinning): string {
+	if (isDaily(binning)) return 'Daily';
+	if (binning.resolution === 'week') return 'Weekly';
+	if (binning.resolution === 'month') return 'Monthly';
+	return `${binningDays(binning)}-day`;
+}
+
+/** One step, e.g. "day", "week" or "3 days" */
+export function stepName(binning: TemporalBinning): string {
+	if (isDaily(binning)) return 'day';
+	if (binning.resolution === 'days') return `${binningDays(binning)} days`;
+	return binning.resolution;
+}
+
+/** The period a binned count covers: a whole step when summed, else one day */
+export function countPeriod(binning: TemporalBinning): string {
+	return binning.aggregation === 'sum' ? stepName(binning) : 'day';
+}
+
+/** Unit of a binned detection count, e.g. "detections/week" or "detections/day, max" */
+export function detectionUnit(binning: TemporalBinning): string {
+	const unit = `detections/${countPeriod(binning)}`;
+	return isDaily(binning) || binning.aggregation === 'sum'
+		? unit
+		: `${unit}, ${binning.aggregation}`;
+}
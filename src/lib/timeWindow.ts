@@ -0,0 +1,102 @@
+/**
+ * Time Window - The zoomed part of the season shared by the chart and the map
+ *
+ * The window is held as dates rather than indices so it survives a change of
+ * time step. The chart zooms its axis to it; the map's timeline and playback
+ * loop run over the steps it covers. Null means the whole season.
+ */
+
+/** First and last day in view (YYYY-MM-DD, inclusive) */
+export interface TimeWindow {
+	start: string;
+	end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toTime(date: string): number {
+	return new Date(date).getTime();
+}
+
+function toDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * A window over [start, end] (ms), widened to at least `minDays` and kept
+ * within the season; null when it takes in the whole season
+ */
+export function fitWindow(
+	season: TimeWindow,
+	start: number,
+	end: number,
+	minDays: number
+): TimeWindow | null {
+	const first = toTime(season.start);
+	const last = toTime(season.end);
+	const span = Math.min(last - first, Math.max(end - start, minDays * DAY_MS));
+	if (span >= last - first) return null;
+	const from = Math.max(first, Math.min((start + end) / 2 - span / 2, last - span));
+	return { start: toDate(from), end: toDate(from + span) };
+}
+
+/** Scale the window by `factor` (below 1 zooms in) about a time in ms */
+export function zoomWindow(
+	season: TimeWindow,
+	current: TimeWindow | null,
+	centre: number,
+	factor: number,
+	minDays: number
+): TimeWindow | null {
+	const { start, end } = current ?? season;
+	const from = toTime(start);
+	const to = toTime(end);
+	const span = Math.max((to - from) * factor, minDays * DAY_MS);
+	const ratio = to > from ? (centre - from) / (to - from) : 0.5;
+	const next = centre - ratio * span;
+	// Widened here, as fitWindow would widen about the middle and move the cursor's date
+	return fitWindow(season, next, next + span, 0);
+}
+
+/** Shift the window by `offset` ms, stopping at the ends of the season */
+export function panWindow(
+	season: TimeWindow,
+	current: TimeWindow | null,
+	offset: number
+): TimeWindow | null {
+	if (!current) return null;
+	const from = toTime(current.start) + offset;
+	const to = toTime(current.end) + offset;
+	const first = toTime(season.start);
+	const last = toTime(season.end);
+	const shift = Math.max(first - from, Math.min(0, last - to));
+	return fitWindow(season, from + shift, to + shift, 0);
+}
+
+/**
+ * Index of the step holding a date: the last date on or before it. Dates are
+ * ascending YYYY-MM-DD, one per step.
+ */
+export function stepIndex(dates: string[], date: string): number {
+	let lo = 0;
+	let hi = dates.length;
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1;
+		if (dates[mid] <= date) lo = mid + 1;
+		else hi = mid;
+	}
+	return Math.max(0, lo - 1);
+}
+
+/** Inclusive index range of the steps the window covers; every step without one */
+export function windowIndices(
+	dates: string[],
+	window: TimeWindow | null
+): { from: number; to: number } {
+	const last = Math.max(0, dates.length - 1);
+	if (!window || dates.length === 0) return { from: 0, to: last };
+	// A window left over from other data covers none of these dates
+	if (window.end < dates[0] || window.start > dates[last]) return { from: 0, to: last };
+	const from = stepIndex(dates, window.start);
+	return { from, to: Math.max(from, stepIndex(dates, window.end)) };
+}
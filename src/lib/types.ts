@@ -11,10 +11,13 @@ export interface Metadata {
 	nDays: number;
 }
 
+/** A numeric series; typed-array views when decoded from the packed binary format */
+export type Series = number[] | Float32Array | Uint16Array;
+
 export interface TimeSeries {
 	dates: string[];
-	mean: number[];
-	sites: Record<string, number[]>;
+	mean: Series;
+	sites: Record<string, Series>;
 }
 
 export interface Species {
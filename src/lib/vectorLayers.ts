@@ -0,0 +1,414 @@
+/**
+ * Vector Layers - Map overlays from shapefiles and GeoJSON
+ *
+ * Each layer (the study perimeter, woodland compartments, rides, streams,
+ * nest boxes, ...) is read from a shapefile (.shp with its .dbf and .prj) or a
+ * GeoJSON file, reprojected from its own coordinate system to WGS84, and kept
+ * as points, lines or polygons with their attributes. Polygons keep their
+ * holes: each polygon is its outer ring followed by any inner rings.
+ */
+
+import { BNG_PROJECTION, toWgs84 } from './britishGrid';
+
+export interface LonLat {
+	lat: number;
+	lon: number;
+}
+
+/** Geometry of one feature; P is a position (WGS84, or grid metres once projected) */
+export type VectorGeometry<P = LonLat> =
+	| { type: 'point'; points: P[] }
+	| { type: 'line'; lines: P[][] }
+	| { type: 'polygon'; polygons: P[][][] };
+
+export type AttributeValue = string | number | boolean | null;
+
+export interface VectorFeature<P = LonLat> {
+	geometry: VectorGeometry<P>;
+	properties: Record<string, AttributeValue>;
+}
+
+export interface VectorStyle {
+	stroke: string;
+	strokeWidth: number;
+	/** Polygon and point fill; null for outlines only */
+	fill: string | null;
+	/** Line dash pattern in pixels; null for solid */
+	dash: number[] | null;
+	/** Radius of point symbols in pixels */
+	pointRadius: number;
+}
+
+export type VectorLayerKind =
+	| 'perimeter'
+	| 'compartments'
+	| 'rides'
+	| 'streams'
+	| 'nestBoxes'
+	| 'other';
+
+export const VECTOR_LAYER_KINDS: Record<VectorLayerKind, { label: string; style: VectorStyle }> = {
+	perimeter: {
+		label: 'Study area',
+		style: {
+			stroke: 'rgba(255, 255, 255, 0.12)',
+			strokeWidth: 1.5,
+			fill: null,
+			dash: null,
+			pointRadius: 3
+		}
+	},
+	compartments: {
+		label: 'Compartments',
+		style: {
+			stroke: 'rgba(134, 239, 172, 0.35)',
+			strokeWidth: 1,
+			fill: 'rgba(134, 239, 172, 0.04)',
+			dash: null,
+			pointRadius: 3
+		}
+	},
+	rides: {
+		label: 'Rides and paths',
+		style: {
+			stroke: 'rgba(253, 230, 138, 0.45)',
+			strokeWidth: 1.2,
+			fill: null,
+			dash: [4, 3],
+			pointRadius: 3
+		}
+	},
+	streams: {
+		label: 'Streams',
+		style: {
+			stroke: 'rgba(96, 165, 250, 0.6)',
+			strokeWidth: 1.5,
+			fill: null,
+			dash: null,
+			pointRadius: 3
+		}
+	},
+	nestBoxes: {
+		label: 'Nest boxes',
+		style: {
+			stroke: 'rgba(26, 27, 30, 0.9)',
+			strokeWidth: 1,
+			fill: 'rgba(251, 146, 60, 0.9)',
+			dash: null,
+			pointRadius: 3
+		}
+	},
+	other: {
+		label: 'Layer',
+		style: {
+			stroke: 'rgba(255, 255, 255, 0.4)',
+			strokeWidth: 1,
+			fill: null,
+			dash: null,
+			pointRadius: 3
+		}
+	}
+};
+
+/**
+ * Where a layer's data lives: a shapefile or a GeoJSON file. A shapefile's
+ * .dbf and .prj default to the files next to the .shp.
+ */
+export interface VectorSource {
+	shp?: string;
+	dbf?: string;
+	prj?: string;
+	geojson?: string;
+}
+
+/** A layer as listed in the dataset manifest */
+export interface VectorLayerConfig extends VectorSource {
+	id: string;
+	kind?: VectorLayerKind;
+	label?: string;
+	style?: Partial<VectorStyle>;
+	/** Shown when the map opens (default true) */
+	visible?: boolean;
+	/** Attribute used as the heading of the hover tooltip */
+	labelField?: string;
+}
+
+export interface VectorLayer {
+	id: string;
+	kind: VectorLayerKind;
+	label: string;
+	style: VectorStyle;
+	visible: boolean;
+	labelField: string | null;
+	features: VectorFeature[];
+}
+
+/**
+ * A loaded layer with its style and label filled in from its kind
+ */
+export function createVectorLayer(
+	config: VectorLayerConfig,
+	features: VectorFeature[]
+): VectorLayer {
+	const kind = config.kind ?? 'other';
+	const preset = VECTOR_LAYER_KINDS[kind];
+	return {
+		id: config.id,
+		kind,
+		label: config.label ?? preset.label,
+		style: { ...preset.style, ...config.style },
+		visible: config.visible ?? true,
+		labelField: config.labelField ?? null,
+		features
+	};
+}
+
+/** Files next to a shapefile: the .dbf and .prj share its name */
+export function siblingFile(shp: string, extension: 'dbf' | 'prj'): string {
+	return shp.replace(/\.shp$/i, '') + '.' + extension;
+}
+
+// ============================================================================
+// Coordinate systems
+// ============================================================================
+
+/**
+ * Projection to use for a .prj file. proj4 reads ESRI WKT without the OSGB36
+ * datum shift (about 100 m out), so British National Grid uses the full
+ * definition. It is recognised by name, or by its Transverse Mercator
+ * parameters on the Airy spheroid when exported without one.
+ */
+export function projectionFromPrj(wkt: string): string {
+	if (/British_National_Grid|OSGB|EPSG["',\s]*27700/i.test(wkt)) return BNG_PROJECTION;
+	const parameter = (name: string) => {
+		const match = new RegExp(`PARAMETER\\["${name}",\\s*(-?[\\d.]+)\\]`, 'i').exec(wkt);
+		return match ? Number(match[1]) : null;
+	};
+	const isBng =
+		/airy/i.test(wkt) &&
+		/Transverse_Mercator/i.test(wkt) &&
+		parameter('latitude_of_origin') === 49 &&
+		parameter('central_meridian') === -2 &&
+		parameter('false_easting') === 400000 &&
+		parameter('false_northing') === -100000;
+	return isBng ? BNG_PROJECTION : wkt;
+}
+
+/**
+ * Projection named by a GeoJSON file's legacy `crs` member, or null for the
+ * standard WGS84
+ */
+function projectionFromCrs(crs: unknown): string | null {
+	const name = (crs as { properties?: { name?: unknown } } | undefined)?.properties?.name;
+	if (typeof name !== 'string') return null;
+	if (/CRS84$|EPSG:+4326$/i.test(name)) return null;
+	if (/EPSG:+27700$/i.test(name)) return BNG_PROJECTION;
+	throw new Error(`Unsupported GeoJSON coordinate system ${name}; convert it to WGS84`);
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** The parts of GeoJSON read here */
+interface GeoJsonGeometry {
+	type: string;
+	coordinates?: unknown;
+	geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+	type?: string;
+	geometry: GeoJsonGeometry | null;
+	properties?: Record<string, unknown> | null;
+}
+
+function toAttribute(value: unknown): AttributeValue {
+	if (value === null || value === undefined) return null;
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+		return value;
+	}
+	if (value instanceof Date) return value.toISOString().slice(0, 10);
+	return JSON.stringify(value);
+}
+
+/** Geometries of a GeoJSON geometry, reprojected; collections are split up */
+function convertGeometry(
+	geometry: GeoJsonGeometry,
+	project: (x: number, y: number) => LonLat
+): VectorGeometry[] {
+	const position = (c: number[]) => project(c[0], c[1]);
+	const path = (c: number[][]) => c.map(position);
+	const coords = geometry.coordinates;
+	switch (geometry.type) {
+		case 'Point':
+			return [{ type: 'point', points: [position(coords as number[])] }];
+		case 'MultiPoint':
+			return [{ type: 'point', points: path(coords as number[][]) }];
+		case 'LineString':
+			return [{ type: 'line', lines: [path(coords as number[][])] }];
+		case 'MultiLineString':
+			return [{ type: 'line', lines: (coords as number[][][]).map(path) }];
+		case 'Polygon':
+			return [{ type: 'polygon', polygons: [(coords as number[][][]).map(path)] }];
+		case 'MultiPolygon':
+			return [{ type: 'polygon', polygons: (coords as number[][][][]).map((p) => p.map(path)) }];
+		case 'GeometryCollection':
+			return (geometry.geometries ?? []).flatMap((g) => convertGeometry(g, project));
+		default:
+			return [];
+	}
+}
+
+/**
+ * Reproject GeoJSON features to WGS84. `projection` is a proj4 string or WKT;
+ * null means the coordinates are already WGS84.
+ */
+export function convertFeatures(
+	features: GeoJsonFeature[],
+	projection: string | null
+): VectorFeature[] {
+	const project = projection
+		? (x: number, y: number) => toWgs84(projection, x, y)
+		: (x: number, y: number) => ({ lon: x, lat: y });
+	const out: VectorFeature[] = [];
+	for (const feature of features) {
+		if (!feature.geometry) continue;
+		const properties: Record<string, AttributeValue> = {};
+		for (const [key, value] of Object.entries(feature.properties ?? {})) {
+			properties[key] = toAttribute(value);
+		}
+		for (const geometry of convertGeometry(feature.geometry, project)) {
+			out.push({ geometry, properties });
+		}
+	}
+	return out;
+}
+
+/**
+ * Read a shapefile. `prj` is the .prj text; without one British National Grid
+ * is assumed.
+ */
+export async function parseShapefile(
+	shp: ArrayBuffer,
+	dbf?: ArrayBuffer,
+	prj?: string
+): Promise<VectorFeature[]> {
+	const shapefile = await import('shapefile');
+	// The .dbf is optional; without it features just have no properties
+	const collection = (await shapefile.read(shp, dbf as ArrayBuffer)) as unknown as
+		| GeoJsonFeature[]
+		| { features: GeoJsonFeature[] };
+	const features = Array.isArray(collection) ? collection : collection.features;
+	return convertFeatures(features, prj ? projectionFromPrj(prj) : BNG_PROJECTION);
+}
+
+/**
+ * Read a GeoJSON FeatureCollection, Feature or bare geometry. Coordinates are
+ * WGS84 unless a .prj is given or the file names British National Grid in its
+ * `crs` member.
+ */
+export function parseGeoJson(data: unknown, prj?: string): VectorFeature[] {
+	const json = data as {
+		type?: string;
+		features?: GeoJsonFeature[];
+		crs?: unknown;
+	} & Partial<GeoJsonFeature> &
+		Partial<GeoJsonGeometry>;
+	if (!json || typeof json !== 'object' || typeof json.type !== 'string') {
+		throw new Error('Not a GeoJSON file');
+	}
+	const projection = prj ? projectionFromPrj(prj) : projectionFromCrs(json.crs);
+	let features: GeoJsonFeature[];
+	if (json.type === 'FeatureCollection') features = json.features ?? [];
+	else if (json.type === 'Feature') features = [json as GeoJsonFeature];
+	else features = [{ geometry: json as GeoJsonGeometry, properties: null }];
+	return convertFeatures(features, projection);
+}
+
+/**
+ * The polygons of a layer, for clipping to the study area
+ */
+export function layerPolygons(features: VectorFeature[]): LonLat[][][] {
+	return features.flatMap((f) => (f.geometry.type === 'polygon' ? f.geometry.polygons : []));
+}
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+export type GridPoint = [number, number];
+
+/**
+ * Apply a function to every position of a geometry
+ */
+export function mapGeometry<P, Q>(geometry: VectorGeometry<P>, f: (p: P) => Q): VectorGeometry<Q> {
+	switch (geometry.type) {
+		case 'point':
+			return { type: 'point', points: geometry.points.map(f) };
+		case 'line':
+			return { type: 'line', lines: geometry.lines.map((l) => l.map(f)) };
+		case 'polygon':
+			return {
+				type: 'polygon',
+				polygons: geometry.polygons.map((p) => p.map((r) => r.map(f)))
+			};
+	}
+}
+
+function distanceToSegment(x: number, y: number, a: GridPoint, b: GridPoint): number {
+	const dx = b[0] - a[0];
+	const dy = b[1] - a[1];
+	const length2 = dx * dx + dy * dy;
+	const t =
+		length2 === 0 ? 0 : Math.max(0, Math.min(1, ((x - a[0]) * dx + (y - a[1]) * dy) / length2));
+	return Math.hypot(x - (a[0] + t * dx), y - (a[1] + t * dy));
+}
+
+/** Even-odd test, so holes are outside */
+function insidePolygon(rings: GridPoint[][], x: number, y: number): boolean {
+	let inside = false;
+	for (const ring of rings) {
+		for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+			const [xi, yi] = ring[i];
+			const [xj, yj] = ring[j];
+			if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+		}
+	}
+	return inside;
+}
+
+/**
+ * Distance from a point to a geometry in the same units. Inside a polygon it
+ * is 0, or the distance to its outline if `interior` is false.
+ */
+export function distanceToGeometry(
+	geometry: VectorGeometry<GridPoint>,
+	x: number,
+	y: number,
+	interior: boolean = true
+): number {
+	let best = Infinity;
+	switch (geometry.type) {
+		case 'point':
+			for (const p of geometry.points) best = Math.min(best, Math.hypot(p[0] - x, p[1] - y));
+			return best;
+		case 'line':
+			for (const line of geometry.lines) {
+				for (let i = 1; i < line.length; i++) {
+					best = Math.min(best, distanceToSegment(x, y, line[i - 1], line[i]));
+				}
+			}
+			return best;
+		case 'polygon':
+			for (const rings of geometry.polygons) {
+				if (interior && insidePolygon(rings, x, y)) return 0;
+				for (const ring of rings) {
+					for (let i = 1; i < ring.length; i++) {
+						best = Math.min(best, distanceToSegment(x, y, ring[i - 1], ring[i]));
+					}
+				}
+			}
+			return best;
+	}
+}
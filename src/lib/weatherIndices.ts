@@ -0,0 +1,233 @@
+/**
+ * Weather Indices - Day length and ecological indices from daily weather
+ *
+ * - Sunrise, sunset and photoperiod from the sun's position, for sources that
+ *   don't provide them (station files)
+ * - Growing degree days, cumulative warmth since 1 January and frost days
+ * - The extra weather variables the activity chart can overlay
+ */
+
+import type { DailyWeather } from './weatherService';
+
+/** Base temperature for growing degree days (°C), as used in UK phenology work */
+export const GDD_BASE_C = 5;
+
+const DAY_MS = 86400000;
+const RAD = Math.PI / 180;
+
+// ============================================================================
+// Day length
+// ============================================================================
+
+/**
+ * Sunrise and sunset (UTC) for a date, using the standard sunrise equation
+ * with -0.833° for refraction and the solar disc. Null times mean polar day
+ * or night.
+ */
+export function solarTimes(
+	date: Date,
+	latitude: number,
+	longitude: number
+): { sunrise: Date | null; sunset: Date | null; daylightHours: number } {
+	const julianDate = Math.floor(date.getTime() / DAY_MS) + 2440587.5;
+	const n = Math.ceil(julianDate - 2451545.0 + 0.0008);
+	const meanSolarTime = n - longitude / 360;
+	const anomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+	const center =
+		1.9148 * Math.sin(anomaly * RAD) +
+		0.02 * Math.sin(2 * anomaly * RAD) +
+		0.0003 * Math.sin(3 * anomaly * RAD);
+	const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+	const transit =
+		2451545.0 +
+		meanSolarTime +
+		0.0053 * Math.sin(anomaly * RAD) -
+		0.0069 * Math.sin(2 * eclipticLongitude * RAD);
+	const declination = Math.asin(Math.sin(eclipticLongitude * RAD) * Math.sin(23.4397 * RAD));
+	const cosHourAngle =
+		(Math.sin(-0.833 * RAD) - Math.sin(latitude * RAD) * Math.sin(declination)) /
+		(Math.cos(latitude * RAD) * Math.cos(declination));
+
+	if (cosHourAngle > 1) return { sunrise: null, sunset: null, daylightHours: 0 };
+	if (cosHourAngle < -1) return { sunrise: null, sunset: null, daylightHours: 24 };
+
+	const hourAngle = Math.acos(cosHourAngle) / RAD;
+	const toDate = (julian: number) => new Date((julian - 2440587.5) * DAY_MS);
+	return {
+		sunrise: toDate(transit - hourAngle / 360),
+		sunset: toDate(transit + hourAngle / 360),
+		daylightHours: (2 * hourAngle) / 15
+	};
+}
+
+/**
+ * Fill in sunrise, sunset and photoperiod where a source left them out
+ */
+export function fillDaylight(
+	daily: DailyWeather[],
+	latitude: number,
+	longitude: number,
+	timezone: string
+): DailyWeather[] {
+	const clock = new Intl.DateTimeFormat('en-GB', {
+		timeZone: timezone,
+		hour: '2-digit',
+		minute: '2-digit',
+		hourCycle: 'h23'
+	});
+	return daily.map((day) => {
+		if (day.photoperiod != null && day.sunrise && day.sunset) return day;
+		const sun = solarTimes(day.date, latitude, longitude);
+		return {
+			...day,
+			sunrise: day.sunrise ?? (sun.sunrise ? clock.format(sun.sunrise) : undefined),
+			sunset: day.sunset ?? (sun.sunset ? clock.format(sun.sunset) : undefined),
+			photoperiod: day.photoperiod ?? sun.daylightHours
+		};
+	});
+}
+
+// ============================================================================
+// Ecological indices
+// ============================================================================
+
+/** A day of weather with the derived indices */
+export interface WeatherDay extends DailyWeather {
+	gdd: number; // Growing degree days for this day (°C·d above GDD_BASE_C)
+	warmth: number; // Growing degree days summed since 1 January
+	frost: boolean; // Minimum temperature below 0 °C
+	frostDays: number; // Frost days since 1 January, including this one
+}
+
+/**
+ * Add growing degree days, cumulative warmth and frost counts to a daily
+ * series (sorted by date). Sums restart on 1 January; if the series starts
+ * later in the year they count from its first day.
+ */
+export function computeWeatherIndices(
+	daily: DailyWeather[],
+	baseC: number = GDD_BASE_C
+): WeatherDay[] {
+	let year = -1;
+	let warmth = 0;
+	let frostDays = 0;
+	return daily.map((day) => {
+		if (day.date.getUTCFullYear() !== year) {
+			year = day.date.getUTCFullYear();
+			warmth = 0;
+			frostDays = 0;
+		}
+		const hasRange = day.temperatureMax != null && day.temperatureMin != null;
+		const mean = hasRange ? (day.temperatureMax + day.temperatureMin) / 2 : day.temperatureMean;
+		const gdd = mean != null ? Math.max(0, mean - baseC) : 0;
+		const frost = day.temperatureMin != null && day.temperatureMin < 0;
+		warmth += gdd;
+		if (frost) frostDays++;
+		return { ...day, gdd, warmth, frost, frostDays };
+	});
+}
+
+// ============================================================================
+// Chart overlays
+// ============================================================================
+
+export type WeatherOverlay =
+	| 'windSpeed'
+	| 'cloudCover'
+	| 'sunshineHours'
+	| 'photoperiod'
+	| 'gdd'
+	| 'warmth'
+	| 'frost';
+
+export interface WeatherOverlayInfo {
+	label: string;
+	shortLabel: string;
+	unit: string;
+	color: string;
+	/** Lines are drawn on their own scale; marks flag individual days */
+	kind: 'line' | 'marks';
+	/** Fixed scale range, e.g. 0-100 % for cloud cover */
+	domain?: [number, number];
+	value: (day: WeatherDay) => number | null;
+}
+
+const orNull = (value: number | undefined) => value ?? null;
+
+export const WEATHER_OVERLAYS: Record<WeatherOverlay, WeatherOverlayInfo> = {
+	windSpeed: {
+		label: 'Wind speed',
+		shortLabel: 'Wind',
+		unit: 'km/h',
+		color: '#a5b4fc',
+		kind: 'line',
+		value: (d) => orNull(d.windSpeed)
+	},
+	cloudCover: {
+		label: 'Cloud cover',
+		shortLabel: 'Cloud',
+		unit: '%',
+		color: '#cbd5e1',
+		kind: 'line',
+		domain: [0, 100],
+		value: (d) => orNull(d.cloudCover)
+	},
+	sunshineHours: {
+		label: 'Sunshine',
+		shortLabel: 'Sun',
+		unit: 'h',
+		color: '#fcd34d',
+		kind: 'line',
+		value: (d) => orNull(d.sunshineHours)
+	},
+	photoperiod: {
+		label: 'Day length',
+		shortLabel: 'Day length',
+		unit: 'h',
+		color: '#fde68a',
+		kind: 'line',
+		value: (d) => orNull(d.photoperiod)
+	},
+	gdd: {
+		label: `Growing degree days (base ${GDD_BASE_C} °C)`,
+		shortLabel: 'GDD',
+		unit: '°C·d',
+		color: '#fb923c',
+		kind: 'line',
+		value: (d) => d.gdd
+	},
+	warmth: {
+		label: 'Warmth since 1 Jan',
+		shortLabel: 'Warmth',
+		unit: '°C·d',
+		color: '#f97316',
+		kind: 'line',
+		value: (d) => d.warmth
+	},
+	frost: {
+		label: 'Frost days',
+		shortLabel: 'Frost',
+		unit: '',
+		color: '#7dd3fc',
+		kind: 'marks',
+		value: (d) => (d.frost ? 1 : 0)
+	}
+};
+
+/**
+ * Tooltip text for an overlay on one day
+ */
+export function formatWeatherOverlay(overlay: WeatherOverlay, day: WeatherDay): string | null {
+	if (overlay === 'frost') {
+		return `${day.frost ? 'Yes' : 'No'} · ${day.frostDays} since 1 Jan`;
+	}
+	const info = WEATHER_OVERLAYS[overlay];
+	const value = info.value(day);
+	if (value === null) return null;
+	const digits = overlay === 'cloudCover' || overlay === 'warmth' ? 0 : 1;
+	const text = `${value.toFixed(digits)} ${info.unit}`;
+	if (overlay === 'photoperiod' && day.sunrise && day.sunset) {
+		return `${text} (${day.sunrise}–${day.sunset})`;
+	}
+	return text;
+}
@@ -1,16 +1,22 @@
 /**
- * Weather Service - Open-Meteo API Integration
+ * Weather Service - Weather providers for the detection timelines
  *
- * Fetches weather data from Open-Meteo's free API for the Wytham Woods site.
- * Used for adding temperature and precipitation context to detection timelines.
+ * Weather adds temperature and precipitation context to detection timelines.
+ * It comes from a WeatherProvider chosen per dataset in the manifest:
+ * - Open-Meteo's free historical archive (the default, for the Wytham Woods site)
+ * - Records from the on-site meteorological station (see stationWeather)
  *
  * API Docs: https://open-meteo.com/en/docs
  */
 
+import { fetchJson, fetchBuffer, clearResourceCache } from './resourceLoader';
+import { parseStationWeather } from './stationWeather';
+import { fillDaylight } from './weatherIndices';
+
 // Wytham Woods coordinates (Oxford, UK)
-const SITE_LATITUDE = 51.771342;
-const SITE_LONGITUDE = -1.337984;
-const SITE_TIMEZONE = 'Europe/London';
+export const SITE_LATITUDE = 51.771342;
+export const SITE_LONGITUDE = -1.337984;
+export const SITE_TIMEZONE = 'Europe/London';
 
 const OPEN_METEO_ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
 
@@ -23,6 +29,12 @@ export interface DailyWeather {
 	temperatureMin: number; // °C
 	temperatureMean: number; // °C
 	precipitationSum: number; // mm
+	windSpeed?: number; // km/h, daily mean at 10 m
+	cloudCover?: number; // %, daily mean
+	sunshineHours?: number; // Hours of bright sunshine
+	sunrise?: string; // HH:MM, site time
+	sunset?: string; // HH:MM, site time
+	photoperiod?: number; // Hours from sunrise to sunset
 }
 
 /**
@@ -33,6 +45,36 @@ export interface WeatherData {
 	longitude: number;
 	timezone: string;
 	daily: DailyWeather[];
+	/** Where the readings come from, e.g. "Open-Meteo archive" */
+	source?: string;
+}
+
+/**
+ * Where a dataset's weather comes from (manifest `weather` field)
+ */
+export type WeatherSourceConfig =
+	| {
+			type: 'open-meteo';
+			latitude?: number;
+			longitude?: number;
+			timezone?: string;
+	  }
+	| {
+			type: 'station';
+			url: string; // CSV or JSON of daily or hourly station records
+			label?: string;
+			latitude?: number;
+			longitude?: number;
+	  };
+
+/**
+ * A source of daily weather for a date range
+ */
+export interface WeatherProvider {
+	/** Identifies the source and its settings; part of cache keys */
+	readonly id: string;
+	readonly label: string;
+	fetchDaily(startDate: string, endDate: string, signal?: AbortSignal): Promise<WeatherData>;
 }
 
 /**
@@ -44,6 +86,17 @@ interface OpenMeteoDailyResponse {
 	temperature_2m_min: number[];
 	temperature_2m_mean: number[];
 	precipitation_sum: number[];
+	sunshine_duration: number[]; // s
+	daylight_duration: number[]; // s
+	sunrise: string[]; // Local ISO time
+	sunset: string[];
+}
+
+// Only available hourly in the archive; averaged to days here
+interface OpenMeteoHourlyResponse {
+	time: string[];
+	wind_speed_10m: number[];
+	cloud_cover: number[];
 }
 
 interface OpenMeteoResponse {
@@ -51,95 +104,182 @@ interface OpenMeteoResponse {
 	longitude: number;
 	timezone: string;
 	daily?: OpenMeteoDailyResponse;
-	error?: boolean;
-	reason?: string;
+	hourly?: OpenMeteoHourlyResponse;
 }
 
-/**
- * Simple in-memory cache for weather data
- */
-const weatherCache = new Map<string, { data: WeatherData; timestamp: number }>();
-const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour for historical data
+// Historical data for recent days is revised, so cached responses expire
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
 
-function getCacheKey(startDate: string, endDate: string): string {
-	return `${startDate}_${endDate}`;
+/** Location used for Open-Meteo requests */
+export interface WeatherLocation {
+	latitude: number;
+	longitude: number;
+	timezone: string;
 }
 
+const SITE_LOCATION: WeatherLocation = {
+	latitude: SITE_LATITUDE,
+	longitude: SITE_LONGITUDE,
+	timezone: SITE_TIMEZONE
+};
+
 /**
- * Fetch historical weather data
+ * Fetch historical weather data from the Open-Meteo archive
  */
 export async function fetchHistoricalWeather(
 	startDate: string, // YYYY-MM-DD
-	endDate: string // YYYY-MM-DD
+	endDate: string, // YYYY-MM-DD
+	signal?: AbortSignal,
+	location: WeatherLocation = SITE_LOCATION
 ): Promise<WeatherData> {
-	// Check cache
-	const cacheKey = getCacheKey(startDate, endDate);
-	const cached = weatherCache.get(cacheKey);
-	if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-		return cached.data;
-	}
-
 	const params = new URLSearchParams({
-		latitude: String(SITE_LATITUDE),
-		longitude: String(SITE_LONGITUDE),
-		timezone: SITE_TIMEZONE,
+		latitude: String(location.latitude),
+		longitude: String(location.longitude),
+		timezone: location.timezone,
 		start_date: startDate,
 		end_date: endDate,
-		daily: 'temperature_2m_max,temperature_2m_min,temperature_2m_mean,precipitation_sum'
+		daily: [
+			'temperature_2m_max',
+			'temperature_2m_min',
+			'temperature_2m_mean',
+			'precipitation_sum',
+			'sunshine_duration',
+			'daylight_duration',
+			'sunrise',
+			'sunset'
+		].join(','),
+		hourly: 'wind_speed_10m,cloud_cover'
 	});
 
-	const url = `${OPEN_METEO_ARCHIVE_URL}?${params}`;
+	const data = await fetchJson<OpenMeteoResponse>(`${OPEN_METEO_ARCHIVE_URL}?${params}`, {
+		resource: 'weather',
+		label: 'weather history',
+		signal,
+		timeoutMs: 15000,
+		maxAgeMs: CACHE_TTL_MS
+	});
 
-	try {
-		const response = await fetch(url, {
-			signal: AbortSignal.timeout(15000) // 15 second timeout
-		});
+	const wind = data.hourly ? dailyMeans(data.hourly.time, data.hourly.wind_speed_10m) : null;
+	const cloud = data.hourly ? dailyMeans(data.hourly.time, data.hourly.cloud_cover) : null;
+	const hours = (seconds: number | null | undefined) =>
+		seconds == null ? undefined : seconds / 3600;
+	const clockTime = (iso: string | null | undefined) => iso?.slice(11, 16) || undefined;
 
-		if (!response.ok) {
-			throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+	// Parse daily data
+	const daily: DailyWeather[] = [];
+	if (data.daily) {
+		const d = data.daily;
+		for (let i = 0; i < d.time.length; i++) {
+			daily.push({
+				date: new Date(d.time[i]),
+				temperatureMax: d.temperature_2m_max[i],
+				temperatureMin: d.temperature_2m_min[i],
+				temperatureMean: d.temperature_2m_mean[i],
+				precipitationSum: d.precipitation_sum[i] || 0,
+				windSpeed: wind?.get(d.time[i]),
+				cloudCover: cloud?.get(d.time[i]),
+				sunshineHours: hours(d.sunshine_duration?.[i]),
+				sunrise: clockTime(d.sunrise?.[i]),
+				sunset: clockTime(d.sunset?.[i]),
+				photoperiod: hours(d.daylight_duration?.[i])
+			});
 		}
+	}
 
-		const data: OpenMeteoResponse = await response.json();
+	return {
+		latitude: data.latitude,
+		longitude: data.longitude,
+		timezone: data.timezone,
+		daily: fillDaylight(daily, location.latitude, location.longitude, location.timezone),
+		source: 'Open-Meteo archive'
+	};
+}
 
-		if (data.error) {
-			throw new Error(`Open-Meteo API error: ${data.reason}`);
-		}
+/**
+ * Mean of hourly values per local date (YYYY-MM-DD), skipping gaps
+ */
+function dailyMeans(times: string[], values: (number | null)[]): Map<string, number> {
+	const sums = new Map<string, { sum: number; count: number }>();
+	for (let i = 0; i < times.length; i++) {
+		const value = values[i];
+		if (value == null) continue;
+		const day = times[i].slice(0, 10);
+		const acc = sums.get(day) ?? { sum: 0, count: 0 };
+		acc.sum += value;
+		acc.count++;
+		sums.set(day, acc);
+	}
+	return new Map(Array.from(sums, ([day, acc]) => [day, acc.sum / acc.count]));
+}
 
-		// Parse daily data
-		const daily: DailyWeather[] = [];
-		if (data.daily) {
-			const d = data.daily;
-			for (let i = 0; i < d.time.length; i++) {
-				daily.push({
-					date: new Date(d.time[i]),
-					temperatureMax: d.temperature_2m_max[i],
-					temperatureMin: d.temperature_2m_min[i],
-					temperatureMean: d.temperature_2m_mean[i],
-					precipitationSum: d.precipitation_sum[i]
-				});
-			}
-		}
+// ============================================================================
+// Providers
+// ============================================================================
 
-		const result: WeatherData = {
-			latitude: data.latitude,
-			longitude: data.longitude,
-			timezone: data.timezone,
-			daily
-		};
+/**
+ * Weather from the Open-Meteo archive, by default at the Wytham Woods site
+ */
+export function createOpenMeteoProvider(location: Partial<WeatherLocation> = {}): WeatherProvider {
+	const resolved = { ...SITE_LOCATION, ...location };
+	return {
+		id: `open-meteo:${resolved.latitude},${resolved.longitude}`,
+		label: 'Open-Meteo archive',
+		fetchDaily: (startDate, endDate, signal) =>
+			fetchHistoricalWeather(startDate, endDate, signal, resolved)
+	};
+}
 
-		// Cache the result
-		weatherCache.set(cacheKey, { data: result, timestamp: Date.now() });
+/**
+ * Weather from a station file (CSV or JSON, daily or hourly records).
+ * The file is downloaded once; each request picks out its date range.
+ */
+export function createStationProvider(
+	url: string,
+	options: { label?: string; latitude?: number; longitude?: number } = {}
+): WeatherProvider {
+	const label = options.label ?? 'Weather station';
+	return {
+		id: `station:${url}`,
+		label,
+		async fetchDaily(startDate, endDate, signal) {
+			const buffer = await fetchBuffer(url, {
+				resource: 'weather',
+				label: `${label} records`,
+				signal
+			});
+			const daily = parseStationWeather(new TextDecoder().decode(buffer), url).filter((d) => {
+				const day = d.date.toISOString().slice(0, 10);
+				return day >= startDate && day <= endDate;
+			});
+			if (daily.length === 0) {
+				throw new Error(`${label} has no records between ${startDate} and ${endDate}`);
+			}
+			const latitude = options.latitude ?? SITE_LATITUDE;
+			const longitude = options.longitude ?? SITE_LONGITUDE;
+			return {
+				latitude,
+				longitude,
+				timezone: SITE_TIMEZONE,
+				daily: fillDaylight(daily, latitude, longitude, SITE_TIMEZONE),
+				source: label
+			};
+		}
+	};
+}
 
-		return result;
-	} catch (err) {
-		console.error('Failed to fetch weather data:', err);
-		throw err;
+/**
+ * The provider for a dataset's weather config (Open-Meteo if none is given)
+ */
+export function createWeatherProvider(config?: WeatherSourceConfig): WeatherProvider {
+	if (config?.type === 'station') {
+		return createStationProvider(config.url, config);
 	}
+	return createOpenMeteoProvider(config ?? {});
 }
 
 /**
  * Clear the weather cache
  */
 export function clearWeatherCache(): void {
-	weatherCache.clear();
+	clearResourceCache('weather');
 }
@@ -0,0 +1,98 @@
+/**
+ * Zip Writer - Minimal zip archives for exported files
+ *
+ * Entries are stored without compression, which suits files that are already
+ * compressed (PNG frames) and keeps the writer small. Sizes are limited to
+ * 4 GB (no zip64).
+ */
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array<ArrayBuffer>;
+	modified?: Date;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time and date fields */
+function dosDateTime(date: Date): [number, number] {
+	const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+	const day =
+		((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+		((date.getMonth() + 1) << 5) |
+		date.getDate();
+	return [time, day];
+}
+
+/**
+ * Build a zip archive from the entries
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+	const encoder = new TextEncoder();
+	const parts: BlobPart[] = [];
+	const central: Uint8Array<ArrayBuffer>[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const crc = crc32(entry.data);
+		const [time, date] = dosDateTime(entry.modified ?? new Date());
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true); // Version needed
+		local.setUint16(6, 0x0800, true); // UTF-8 names
+		local.setUint16(8, 0, true); // Stored
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, entry.data.length, true);
+		local.setUint32(22, entry.data.length, true);
+		local.setUint16(26, name.length, true);
+		parts.push(local.buffer, name, entry.data);
+
+		const header = new DataView(new ArrayBuffer(46));
+		header.setUint32(0, 0x02014b50, true);
+		header.setUint16(4, 20, true); // Version made by
+		header.setUint16(6, 20, true);
+		header.setUint16(8, 0x0800, true);
+		header.setUint16(10, 0, true);
+		header.setUint16(12, time, true);
+		header.setUint16(14, date, true);
+		header.setUint32(16, crc, true);
+		header.setUint32(20, entry.data.length, true);
+		header.setUint32(24, entry.data.length, true);
+		header.setUint16(28, name.length, true);
+		header.setUint32(42, offset, true);
+		const record = new Uint8Array(46 + name.length);
+		record.set(new Uint8Array(header.buffer), 0);
+		record.set(name, 46);
+		central.push(record);
+
+		offset += 30 + name.length + entry.data.length;
+	}
+
+	const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}
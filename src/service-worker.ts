@@ -0,0 +1,94 @@
+/// <reference types="@sveltejs/kit" />
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+
+/**
+ * Service Worker - Makes the built app usable offline after the first visit
+ *
+ * - App shell (JS/CSS bundles and static assets): precached on install,
+ *   replaced when a new build is deployed.
+ * - Pages: the page HTML is precached on install too, as the first visit
+ *   loads it before the worker is in control; afterwards network first, so
+ *   deploys are picked up, with the cached page when offline.
+ * - Dataset files under /detections/ and bird_data.json: left to the network.
+ *   dataStore keeps its own copies in IndexedDB and falls back to them when
+ *   offline, so a second cache here would only serve stale data after a
+ *   deploy and store every file twice.
+ * - Open-Meteo archive: network first, cached response when offline.
+ */
+
+import { build, files, prerendered, version } from '$service-worker';
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = `shell-${version}`;
+// Survives app deploys; the old 'data-v1' cache of dataset files is dropped on activate
+const WEATHER_CACHE = 'weather-v1';
+
+// Dataset files are cached by dataStore, not here
+const isDataPath = (path: string) => path.startsWith('/detections/') || path === '/bird_data.json';
+
+const SHELL_ASSETS = [...build, ...files.filter((path) => !isDataPath(path))];
+// Served network first, so they are only stored here rather than in SHELL_ASSETS
+const PAGES = ['/', ...prerendered.filter((path) => path !== '/')];
+
+sw.addEventListener('install', (event) => {
+	event.waitUntil(
+		caches
+			.open(SHELL_CACHE)
+			.then((cache) => cache.addAll([...SHELL_ASSETS, ...PAGES]))
+			.then(() => sw.skipWaiting())
+	);
+});
+
+sw.addEventListener('activate', (event) => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then((keys) =>
+				Promise.all(
+					keys
+						.filter((key) => key !== SHELL_CACHE && key !== WEATHER_CACHE)
+						.map((key) => caches.delete(key))
+				)
+			)
+			.then(() => sw.clients.claim())
+	);
+});
+
+async function networkFirst(request: Request, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	try {
+		const response = await fetch(request);
+		if (response.ok) cache.put(request, response.clone());
+		return response;
+	} catch (err) {
+		const cached = await cache.match(request);
+		if (cached) return cached;
+		throw err;
+	}
+}
+
+sw.addEventListener('fetch', (event) => {
+	if (event.request.method !== 'GET') return;
+
+	const url = new URL(event.request.url);
+
+	if (url.hostname === 'archive-api.open-meteo.com') {
+		event.respondWith(networkFirst(event.request, WEATHER_CACHE));
+		return;
+	}
+
+	if (url.origin !== sw.location.origin) return;
+
+	if (isDataPath(url.pathname)) return;
+
+	if (SHELL_ASSETS.includes(url.pathname)) {
+		event.respondWith(caches.match(url.pathname).then((cached) => cached ?? fetch(event.request)));
+		return;
+	}
+
+	// Pages: network first so deploys are picked up, cached page when offline
+	event.respondWith(networkFirst(event.request, SHELL_CACHE));
+});